@@ -13,6 +13,10 @@ module.exports = {
   moduleDirectories: ['node_modules', 'src'],
   testEnvironment: 'jsdom',
   transform: { '^.+\\.ts?$': 'ts-jest' },
-  setupFilesAfterEnv: ['<rootDir>/src/tests/extensions.ts', '<rootDir>/src/tests/pouchdb.mock.ts'],
+  setupFilesAfterEnv: [
+    '<rootDir>/src/tests/extensions.ts',
+    '<rootDir>/src/tests/pouchdb.mock.ts',
+    '<rootDir>/src/tests/rateLimit.mock.ts',
+  ],
   verbose: true,
 };
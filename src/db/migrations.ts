@@ -1,5 +1,7 @@
 import { VERSION } from 'meta';
+import { AutoSearchAccountSchema, SearchDefinitionSchema, SearchSchema } from './schema';
 import { DEFAULT_SETTINGS, SETTINGS_KEY } from './settings';
+import { toId, UTF_MAX } from './types';
 
 const VERSION_REGEXP = new RegExp('^[A-Za-z0-9.-]+$');
 
@@ -116,6 +118,219 @@ const migrations: MigrationDefinitions = {
   },
   '0.0.5': {
     nextVersion: '0.0.6',
+    operations: [
+      {
+        name: 'add_search_definition_schedule',
+        run: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(docs.filter(doc => doc.schedule === undefined).map(doc => ({ ...doc, schedule: null })));
+        },
+        revert: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.schedule !== undefined)
+              .map(doc => {
+                const { schedule, ...rest } = doc;
+                return rest;
+              }),
+          );
+        },
+      },
+    ],
+  },
+  '0.0.6': {
+    nextVersion: '0.0.7',
+    operations: [
+      {
+        name: 'add_account_evidence',
+        run: async (db: PouchDB.Database) => {
+          const docs = await getAutoSearchAccountDocs(db);
+          await db.bulkDocs(docs.filter(doc => doc.evidence === undefined).map(doc => ({ ...doc, evidence: null })));
+        },
+        revert: async (db: PouchDB.Database) => {
+          const docs = await getAutoSearchAccountDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.evidence !== undefined)
+              .map(doc => {
+                const { evidence, ...rest } = doc;
+                return rest;
+              }),
+          );
+        },
+      },
+    ],
+  },
+  '0.0.7': {
+    nextVersion: '0.0.8',
+    operations: [
+      {
+        name: 'add_search_excluded_sites',
+        run: async (db: PouchDB.Database) => {
+          const docs = await getSearchDocs(db);
+          await db.bulkDocs(
+            docs.filter(doc => doc.excludedSiteNames === undefined).map(doc => ({ ...doc, excludedSiteNames: [] })),
+          );
+        },
+        revert: async (db: PouchDB.Database) => {
+          const docs = await getSearchDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.excludedSiteNames !== undefined)
+              .map(doc => {
+                const { excludedSiteNames, ...rest } = doc;
+                return rest;
+              }),
+          );
+        },
+      },
+    ],
+  },
+  '0.0.8': {
+    nextVersion: '0.0.9',
+    operations: [
+      {
+        name: 'add_search_definition_emails',
+        run: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(docs.filter(doc => doc.emails === undefined).map(doc => ({ ...doc, emails: [] })));
+        },
+        revert: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.emails !== undefined)
+              .map(doc => {
+                const { emails, ...rest } = doc;
+                return rest;
+              }),
+          );
+        },
+      },
+    ],
+  },
+  '0.0.9': {
+    nextVersion: '0.1.0',
+    operations: [
+      {
+        name: 'add_search_definition_personas',
+        run: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(docs.filter(doc => doc.personas === undefined).map(doc => ({ ...doc, personas: [] })));
+        },
+        revert: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.personas !== undefined)
+              .map(doc => {
+                const { personas, ...rest } = doc;
+                return rest;
+              }),
+          );
+        },
+      },
+    ],
+  },
+  '0.1.0': {
+    nextVersion: '0.1.1',
+    operations: [
+      {
+        name: 'add_search_definition_site_priority',
+        run: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.prioritizeSites === undefined)
+              .map(doc => ({ ...doc, prioritizeSites: true, pinnedSites: [], tagPriority: [] })),
+          );
+        },
+        revert: async (db: PouchDB.Database) => {
+          const docs = await getSearchDefinitionDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.prioritizeSites !== undefined)
+              .map(doc => {
+                const { prioritizeSites, pinnedSites, tagPriority, ...rest } = doc;
+                return rest;
+              }),
+          );
+        },
+      },
+      {
+        name: 'add_search_site_order',
+        run: async (db: PouchDB.Database) => {
+          const docs = await getSearchDocs(db);
+          await db.bulkDocs(docs.filter(doc => doc.siteOrder === undefined).map(doc => ({ ...doc, siteOrder: null })));
+        },
+        revert: async (db: PouchDB.Database) => {
+          const docs = await getSearchDocs(db);
+          await db.bulkDocs(
+            docs
+              .filter(doc => doc.siteOrder !== undefined)
+              .map(doc => {
+                const { siteOrder, ...rest } = doc;
+                return rest;
+              }),
+          );
+        },
+      },
+    ],
+  },
+  '0.1.1': {
+    nextVersion: '0.1.2',
     operations: [],
   },
 };
+
+/**
+ * Return every `SearchDefinition` document in `db`.
+ */
+async function getSearchDefinitionDocs(db: PouchDB.Database) {
+  const response = await db.allDocs<SearchDefinitionSchema>({
+    include_docs: true,
+    startkey: toId(['searchDef']),
+    endkey: toId(['searchDef', UTF_MAX]),
+  });
+
+  // Searches share the prefix, so skip them by checking a field only definitions have
+  return response.rows.map(row => row.doc!).filter(doc => doc !== undefined && doc.includedSiteNames !== undefined);
+}
+
+/**
+ * Return every `Search` document in `db`.
+ */
+async function getSearchDocs(db: PouchDB.Database) {
+  const response = await db.allDocs<SearchSchema>({
+    include_docs: true,
+    startkey: toId(['searchDef']),
+    endkey: toId(['searchDef', UTF_MAX]),
+  });
+
+  // Searches are stored under their definition, so skip everything else by checking a field only searches have
+  return response.rows.map(row => row.doc!).filter(doc => doc !== undefined && doc.lastSiteIndex !== undefined);
+}
+
+/**
+ * Return every `AutoSearchAccount` document in `db`, including search results.
+ */
+async function getAutoSearchAccountDocs(db: PouchDB.Database) {
+  const accounts = await db.allDocs<AutoSearchAccountSchema>({
+    include_docs: true,
+    startkey: toId(['account']),
+    endkey: toId(['account', UTF_MAX]),
+  });
+  // Search results are stored under their search, which is stored under its definition
+  const searchResults = await db.allDocs<AutoSearchAccountSchema>({
+    include_docs: true,
+    startkey: toId(['searchDef']),
+    endkey: toId(['searchDef', UTF_MAX]),
+  });
+
+  // Skip everything else by checking a field only these accounts have
+  return accounts.rows
+    .concat(searchResults.rows)
+    .map(row => row.doc!)
+    .filter(doc => doc !== undefined && doc.matchedFirstNames !== undefined);
+}
@@ -1,4 +1,18 @@
-import { AccountType, ConfidenceRating, AutoSearchAccountAction, SearchState } from 'search';
+import {
+  AccountType,
+  ConfidenceRating,
+  AutoSearchAccountAction,
+  ProbeEvidence,
+  ProfileMetadata,
+  SearchPersona,
+  SearchSchedule,
+  SearchState,
+  SiteHealthStatus,
+  SiteProbeCheck,
+  SiteProfileFields,
+  UserNameVariant,
+  VariantRule,
+} from 'search';
 import { allSites, Site } from 'sites';
 import { PouchDbId } from './types';
 
@@ -31,6 +45,12 @@ export interface AutoSearchAccountSchema extends AccountSchema {
   matchedFirstNames: string[];
   matchedLastNames: string[];
   actionTaken: AutoSearchAccountAction;
+  variant?: UserNameVariant | null; // Missing on accounts saved before variant expansion
+  evidence: ProbeEvidence | null;
+  metadata?: ProfileMetadata | null; // Missing on accounts saved before metadata extraction
+  siteProfile?: SiteProfileFields | null; // Missing on accounts saved before site extractors
+  email?: string | null; // Missing on accounts saved before email search
+  personaId?: string | null; // Missing on accounts saved before personas
 }
 
 export interface ClaimedAccountSchema extends AutoSearchAccountSchema {
@@ -51,6 +71,10 @@ export interface FailedAccountSchema extends AutoSearchAccountSchema {
   reason: string;
 }
 
+export interface InvalidAccountSchema extends AutoSearchAccountSchema {
+  reason: string;
+}
+
 export interface ManualAccountSchema extends AccountSchema {
   lastEditedAt: string;
   site: Site;
@@ -83,17 +107,45 @@ export interface SearchDefinitionSchema extends BaseSchema {
   firstNames: string[];
   lastNames: string[];
   tags: string[];
+  expandVariants?: boolean; // Missing on definitions saved before variant expansion
+  variantRules?: VariantRule[];
+  schedule: SearchSchedule | null;
+  emails: string[];
+  personas: SearchPersona[];
+  prioritizeSites: boolean;
+  pinnedSites: string[];
+  tagPriority: string[];
 }
 
 export interface SearchSchema extends BaseSchema {
   state: SearchState;
   lastSiteIndex: number;
   lastUserNameIndex: number;
+  siteOrder: string[] | null;
+  excludedSiteNames: string[];
   startedAt: string | null;
   endedAt: string | null;
   definitionId: PouchDbId;
 }
 
+////  Site health  ////
+
+export interface SiteHealthSchema {
+  status: SiteHealthStatus;
+  checkedAt: string;
+  claimed: SiteProbeCheck;
+  unclaimed: SiteProbeCheck;
+  history: boolean[];
+  consecutiveFailures: number;
+}
+
+export interface SiteHealthReportSchema extends BaseSchema {
+  checkedAt: string | null;
+  excludeFailing: boolean;
+  failureThreshold: number;
+  sites: { [siteName: string]: SiteHealthSchema };
+}
+
 ////  Profile  ////
 
 export interface ProfilePageSchema extends BaseSchema {
@@ -138,7 +138,14 @@ export {
   exportToCsv,
 } from 'db';
 export { allSites, supportedSites, unsupportedSites, tags, filterSitesByTags, privacyRatings } from 'sites';
-export { VERSION, EXTENSION_MIN_VERSION, EXTENSION_VERSION, checkExtensionVersion } from 'meta';
+export {
+  VERSION,
+  EXTENSION_MIN_VERSION,
+  EXTENSION_RPC_MIN_VERSION,
+  EXTENSION_VERSION,
+  checkExtensionRpc,
+  checkExtensionVersion,
+} from 'meta';
 export { ProfilePage, DEFAULT_COLOR_SCHEME, pages } from 'profile';
 export {
   AccountType,
@@ -146,6 +153,7 @@ export {
   AutoSearchAccount,
   AutoSearchAccountAction,
   FailedAccount,
+  InvalidAccount,
   ManualAccount,
   RejectedAccount,
   Search,
@@ -20,12 +20,52 @@ declare global {
     __TRACE_EXTENSION_HOOK__: {
       getVersion: () => { major: string; minor: string; rev: string };
       getVersionStr: () => string;
+      /** Send an RPC message to the extension. Available from `EXTENSION_RPC_MIN_VERSION`. */
+      postMessage?: (message: ExtensionRpcRequest | ExtensionRpcCancel) => void;
+      /** Listen for RPC replies from the extension. Available from `EXTENSION_RPC_MIN_VERSION`. */
+      addMessageListener?: (listener: (message: ExtensionRpcResponse) => void) => void;
     };
   }
 }
 
+/**
+ * Message sent to the TRACE browser extension.
+ *
+ * `id` is echoed back on the matching `ExtensionRpcResponse`.
+ */
+export interface ExtensionRpcRequest {
+  type: 'trace-rpc-request';
+  id: string;
+  method: string;
+  params: any;
+}
+
+/**
+ * Message sent to the TRACE browser extension to stop the `ExtensionRpcRequest` with the same `id`.
+ *
+ * There is no reply. A reply to the request that arrives anyway is ignored.
+ */
+export interface ExtensionRpcCancel {
+  type: 'trace-rpc-cancel';
+  id: string;
+}
+
+/**
+ * Reply from the TRACE browser extension.
+ *
+ * Exactly one of `result` or `error` is set.
+ */
+export interface ExtensionRpcResponse {
+  type: 'trace-rpc-response';
+  id: string;
+  result?: any;
+  error?: string;
+}
+
 // Minimum version of the TRACE browser extension that we are compatible with
 export const EXTENSION_MIN_VERSION = '0.0.1';
+// Minimum version of the TRACE browser extension that can send requests for us
+export const EXTENSION_RPC_MIN_VERSION = '0.0.2';
 export let EXTENSION_VERSION: string;
 export const checkExtensionVersion = () => {
   EXTENSION_VERSION = window?.__TRACE_EXTENSION_HOOK__?.getVersionStr();
@@ -44,4 +84,18 @@ export const checkExtensionVersion = () => {
   }
 };
 
+/**
+ * Returns `true` if a TRACE browser extension that supports RPC is installed.
+ */
+export const checkExtensionRpc = () => {
+  if (isNode || typeof window === 'undefined') {
+    return false;
+  }
+
+  const hook = window.__TRACE_EXTENSION_HOOK__;
+  const version = hook?.getVersionStr();
+
+  return Boolean(version && version >= EXTENSION_RPC_MIN_VERSION && hook.postMessage && hook.addMessageListener);
+};
+
 checkExtensionVersion();
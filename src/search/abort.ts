@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Helpers for stopping work with an `AbortSignal`.
+ */
+
+/**
+ * Build the error that `fetch` rejects with when its signal is aborted.
+ */
+export const abortError = () => {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Returns `true` if `e` came from an aborted `AbortSignal`.
+ */
+export const isAbortError = (e: any) => {
+  return Boolean(e) && e.name === 'AbortError';
+};
+
+/**
+ * Wait for `promise`, but reject with an `AbortError` as soon as `signal` is aborted.
+ *
+ * Aborting only stops the wait. Whatever `promise` is doing keeps going.
+ */
+export const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal | null) => {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort);
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      e => {
+        signal.removeEventListener('abort', onAbort);
+        reject(e);
+      },
+    );
+  });
+};
+
+/**
+ * Throw an `AbortError` if `signal` has been aborted.
+ */
+export const throwIfAborted = (signal?: AbortSignal | null) => {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+};
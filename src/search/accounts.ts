@@ -10,6 +10,7 @@ import {
   deserializeSite,
   AutoSearchAccountSchema,
   FailedAccountSchema,
+  InvalidAccountSchema,
   ManualAccountSchema,
   RejectedAccountSchema,
   UnregisteredAccountSchema,
@@ -18,6 +19,12 @@ import {
 import { perfLog } from 'meta';
 import { Site } from 'sites';
 import SparkMD5 from 'spark-md5';
+import { confidenceEngine, ConfidenceExplanation } from './confidence';
+import { SiteProfileFields } from './extractors';
+import { AccountStatusChange } from './history';
+import { AccountHistoryIndex, parseSearchResultId } from './historyIndex';
+import { ProfileMetadata } from './metadata';
+import { UserNameVariant } from './variants';
 
 export const toAccountId = (site: Site, userName: string, idPrefix?: string) => {
   const hash = SparkMD5.hash(toId([site.name, userName]));
@@ -53,6 +60,8 @@ export abstract class ThirdPartyAccount implements IDbStorable {
       return await UnregisteredAccount.deserialize(data as UnregisteredAccountSchema);
     } else if (data.type === AccountType.FAILED) {
       return await FailedAccount.deserialize(data as FailedAccountSchema);
+    } else if (data.type === AccountType.INVALID) {
+      return await InvalidAccount.deserialize(data as InvalidAccountSchema);
     } else if (data.type === AccountType.MANUAL) {
       return await ManualAccount.deserialize(data as ManualAccountSchema);
     } else {
@@ -125,6 +134,27 @@ export abstract class ThirdPartyAccount implements IDbStorable {
     return results;
   }
 
+  /**
+   * Load every search result recorded for the account with ID `id`, across all searches, oldest first.
+   *
+   * `id` is the ID from `toAccountId()`. See `getAccountHistory()`.
+   */
+  public static async history(id: PouchDbId, index?: AccountHistoryIndex): Promise<AutoSearchAccount[]> {
+    // Loaded here because history.ts imports this module
+    const { getAccountHistory } = require('./history') as typeof import('./history');
+    return getAccountHistory(id, index);
+  }
+
+  /**
+   * Return each time the search result for the account with ID `id` changed type, oldest first.
+   *
+   * See `getAccountTimeline()`.
+   */
+  public static async timeline(id: PouchDbId, index?: AccountHistoryIndex): Promise<AccountStatusChange[]> {
+    const { getAccountTimeline } = require('./history') as typeof import('./history');
+    return getAccountTimeline(id, index);
+  }
+
   /**
    * Factory method for deserializing an account of any type.
    *
@@ -217,6 +247,7 @@ export abstract class ThirdPartyAccount implements IDbStorable {
 
       if (this.id.startsWith('search')) {
         ThirdPartyAccount.resultCache.add(this);
+        AccountHistoryIndex.update(this.id, false);
       } else {
         ThirdPartyAccount.accountCache.add(this);
       }
@@ -241,6 +272,7 @@ export abstract class ThirdPartyAccount implements IDbStorable {
     }
 
     DbCache.remove(this.id);
+    AccountHistoryIndex.update(this.id, true);
 
     if (!result.ok) {
       console.error(`Could not delete ${this.id}!`);
@@ -262,6 +294,31 @@ export abstract class ThirdPartyAccount implements IDbStorable {
   }
 }
 
+/**
+ * What `findAccount` saw when it probed a site.
+ *
+ * Kept so that results can be explained and site definitions debugged.
+ */
+export interface ProbeEvidence {
+  /** HTTP method of the request. */
+  method: string;
+  /** URL that was requested. */
+  url: string;
+  /** HTTP status code, or `null` if no response came back. */
+  status: number | null;
+  /** URL after following redirects, or `null` if no response came back. */
+  finalUrl: string | null;
+  /** Time (ms) until the response came back or the request failed. Includes rate limit retries. */
+  responseTime: number | null;
+  /**
+   * `errorType` used to decide the result (`status_code`, `message`, `response_url`, `json_api`, or `regex`),
+   * or `fingerprint` if the page matched the site's soft 404 baseline. `null` if undecided.
+   */
+  rule: string | null;
+  /** Text surrounding the matched `errorMsg`, regex, or name in the response body. */
+  snippet: string | null;
+}
+
 /**
  * An account on which we attempted `Search`.
  *
@@ -291,6 +348,12 @@ export abstract class AutoSearchAccount extends ThirdPartyAccount {
     instance.matchedFirstNames = data.matchedFirstNames;
     instance.matchedLastNames = data.matchedLastNames;
     instance.actionTaken = data.actionTaken;
+    instance.variant = data.variant || null;
+    instance.evidence = data.evidence || null;
+    instance.metadata = data.metadata || null;
+    instance.siteProfile = data.siteProfile || null;
+    instance.email = data.email || null;
+    instance.personaId = data.personaId || null;
 
     return instance;
   }
@@ -301,21 +364,42 @@ export abstract class AutoSearchAccount extends ThirdPartyAccount {
   public matchedFirstNames: string[] = [];
   public matchedLastNames: string[] = [];
   public actionTaken = AutoSearchAccountAction.NONE;
+  /** How `userName` was generated, or `null` if the user entered it directly. */
+  public variant: UserNameVariant | null = null;
+  /** What the probe saw, or `null` if no request was sent. */
+  public evidence: ProbeEvidence | null = null;
+  /** Details found on the profile page, or `null` if none were found. */
+  public metadata: ProfileMetadata | null = null;
+  /** Site-specific details from the site's extractor, or `null` if it has none or found nothing. */
+  public siteProfile: SiteProfileFields | null = null;
+  /** Email address that was searched for, or `null` if this is a user name result. `userName` is the same address. */
+  public email: string | null = null;
+  /** ID of the persona in the search definition that `userName` belongs to, or `null` outside of a search. */
+  public personaId: string | null = null;
 
+  /**
+   * How likely this account belongs to the person being searched for.
+   *
+   * Computed by `confidenceEngine`. By default, this is 3 for the user name,
+   * plus 1 per first name and 2 per last name found, capped at 10.
+   * Generated user names gain or lose a point depending on the rest of the search.
+   * Failed and unregistered accounts have a confidence of 0.
+   */
   public get confidence(): ConfidenceRating {
-    // Actually matched against the username adds a weight of 3
-    // This won't be true for FailedAccounts or UnregisteredAccounts
-    // These account types should have a confidence of 0
-    // A user might still decide to accept or reject the account based on their own knowledge though
-    const userNameWeight = this.matchedUserName ? 3 : 0;
+    return confidenceEngine.rate(this);
+  }
+
+  /**
+   * Return each signal that contributed to `confidence`.
+   */
+  public explainConfidence(): ConfidenceExplanation {
+    return confidenceEngine.explain(this);
+  }
 
-    // Found first names adds a weight of 1
-    // Found last names adds a weight of 2
-    // Max value of 10
-    return Math.min(
-      userNameWeight + this.matchedFirstNames.length + this.matchedLastNames.length * 2,
-      10,
-    ) as ConfidenceRating;
+  /** ID of the search that produced this result, or `null` if it isn't a search result. */
+  public get searchId(): PouchDbId | null {
+    const ref = parseSearchResultId(this.id);
+    return ref === null ? null : ref.searchId;
   }
 
   /**
@@ -403,6 +487,12 @@ export abstract class AutoSearchAccount extends ThirdPartyAccount {
     base.matchedFirstNames = this.matchedFirstNames;
     base.matchedLastNames = this.matchedLastNames;
     base.actionTaken = this.actionTaken;
+    base.variant = this.variant;
+    base.evidence = this.evidence;
+    base.metadata = this.metadata;
+    base.siteProfile = this.siteProfile;
+    base.email = this.email;
+    base.personaId = this.personaId;
     return base;
   }
 }
@@ -580,6 +670,44 @@ export class FailedAccount extends AutoSearchAccount {
   }
 }
 
+/**
+ * Account whose user name can never exist on the site.
+ *
+ * The user name failed the site's `regexCheck` or `noPeriod` rule,
+ * so no request was sent. Explanation is stored in `reason`.
+ */
+export class InvalidAccount extends AutoSearchAccount {
+  /** Map of accounts that are an instance of this class. */
+  public static get accounts() {
+    return ThirdPartyAccount.accountCache.filter(account => account instanceof InvalidAccount);
+  }
+  /** Map of results that are an instance of this class. */
+  public static get results() {
+    return ThirdPartyAccount.resultCache.filter(account => account instanceof InvalidAccount);
+  }
+
+  public static async deserialize(data: InvalidAccountSchema, existingInstance?: InvalidAccount) {
+    const site = deserializeSite(data);
+    const instance = existingInstance || new InvalidAccount(site, data.userName);
+
+    await super.deserialize(data, instance);
+
+    instance.reason = data.reason;
+
+    return instance;
+  }
+
+  public type = AccountType.INVALID;
+  public matchedUserName = false;
+  public reason: string = 'Invalid user name!';
+
+  public serialize(): InvalidAccountSchema {
+    const base = super.serialize() as InvalidAccountSchema;
+    base.reason = this.reason;
+    return base;
+  }
+}
+
 /**
  * Account manually defined and added by the user.
  *
@@ -634,6 +762,9 @@ export const accounts: { [key: string]: ThirdPartyAccount } = ThirdPartyAccount.
  */
 export const searchResults: { [key: string]: ThirdPartyAccount } = ThirdPartyAccount.resultCache.items;
 
+// Caches are cleared when the database is reset or destroyed, so the shared index is out of date too
+ThirdPartyAccount.resultCache.events.on('clear', () => AccountHistoryIndex.reset());
+
 /**
  * Rating from 0-10 with 10 being highly confident.
  */
@@ -646,6 +777,7 @@ export enum AccountType {
   REGISTERED = 'Registered',
   UNREGISTERED = 'Unregistered',
   FAILED = 'Failed',
+  INVALID = 'Invalid',
   MANUAL = 'Manual',
 }
 
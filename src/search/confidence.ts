@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Pluggable scoring used to rate how likely a search result
+ * belongs to the person being searched for.
+ */
+
+import { privacyRatings } from 'sites';
+import { AutoSearchAccount, ConfidenceRating, RegisteredAccount } from './accounts';
+import { Search } from './search';
+
+/**
+ * Extra information available to scorers.
+ */
+export interface ConfidenceContext {
+  /**
+   * Search that produced the account. Needed by scorers that compare results.
+   *
+   * If missing, this is looked up in `Search.cache` from the account's ID. Pass `null` to go without.
+   */
+  search?: Search | null;
+}
+
+/**
+ * Single signal in the confidence pipeline.
+ *
+ * `score()` returns `null` if the signal has nothing to say about the account.
+ */
+export interface ConfidenceScorer {
+  /** Unique name. Used to remove the scorer and shown in explanations. */
+  readonly name: string;
+  /** Multiplier applied to `score`. */
+  weight: number;
+  score: (account: AutoSearchAccount, context: ConfidenceContext) => { score: number; reason: string } | null;
+}
+
+/**
+ * What one scorer contributed to an account's confidence.
+ */
+export interface ConfidenceSignal {
+  scorer: string;
+  weight: number;
+  score: number;
+  /** `weight * score` */
+  points: number;
+  /** Human-readable explanation for the UI. */
+  reason: string;
+}
+
+/**
+ * Breakdown of an account's confidence.
+ */
+export interface ConfidenceExplanation {
+  /** Final rating. `total` rounded and clamped to 0-10. */
+  rating: ConfidenceRating;
+  /** Sum of `points` over `signals`. */
+  total: number;
+  signals: ConfidenceSignal[];
+}
+
+////  Scorers  ////
+
+/** 3 points if the user name was found on the site. */
+export const userNameScorer: ConfidenceScorer = {
+  name: 'userName',
+  weight: 3,
+  score: account => {
+    if (!account.matchedUserName) {
+      return null;
+    }
+    return { score: 1, reason: `'${account.userName}' exists on ${account.site.name}` };
+  },
+};
+
+/** 1 point per first name found on the profile. */
+export const firstNameScorer: ConfidenceScorer = {
+  name: 'firstNames',
+  weight: 1,
+  score: account => {
+    if (account.matchedFirstNames.length === 0) {
+      return null;
+    }
+    return {
+      score: account.matchedFirstNames.length,
+      reason: `Profile mentions first name ${account.matchedFirstNames.join(', ')}`,
+    };
+  },
+};
+
+/** 2 points per last name found on the profile. */
+export const lastNameScorer: ConfidenceScorer = {
+  name: 'lastNames',
+  weight: 2,
+  score: account => {
+    if (account.matchedLastNames.length === 0) {
+      return null;
+    }
+    return {
+      score: account.matchedLastNames.length,
+      reason: `Profile mentions last name ${account.matchedLastNames.join(', ')}`,
+    };
+  },
+};
+
+/**
+ * Trust sites more when they check the page content, redirect, or API response
+ * instead of only the status code, which is prone to false positives.
+ */
+export const siteReliabilityScorer: ConfidenceScorer = {
+  name: 'siteReliability',
+  weight: 0.2,
+  score: account => {
+    const site = account.site;
+    if (site.omit) {
+      return { score: -1, reason: `${site.name} is not supported and may give wrong results` };
+    } else if (site.errorType === 'message') {
+      return { score: 1, reason: `${site.name} is checked by looking for a message on the page` };
+    } else if (site.errorType === 'response_url') {
+      return { score: 1, reason: `${site.name} is checked by looking for a redirect` };
+    } else if (site.errorType === 'json_api') {
+      return { score: 1, reason: `${site.name} is checked with its API` };
+    } else if (site.errorType === 'regex') {
+      return { score: 1, reason: `${site.name} is checked by looking for a pattern on the page` };
+    }
+    return null;
+  },
+};
+
+/** A little extra trust in sites that have been reviewed and given a privacy rating. */
+export const privacyRatingScorer: ConfidenceScorer = {
+  name: 'privacyRating',
+  weight: 0.1,
+  score: account => {
+    const entry = privacyRatings[account.site.name];
+    if (!entry || entry.privacyRating === 'none') {
+      return null;
+    }
+    return { score: 1, reason: `${account.site.name} has been reviewed (privacy rating ${entry.privacyRating})` };
+  },
+};
+
+/**
+ * Points for what the probe actually saw.
+ *
+ * A positive result that was redirected elsewhere is suspicious.
+ * A snippet means we found something concrete on the page.
+ */
+export const evidenceScorer: ConfidenceScorer = {
+  name: 'evidence',
+  weight: 0.15,
+  score: account => {
+    const evidence = account.evidence;
+    if (!evidence || !(account instanceof RegisteredAccount) || evidence.status === null) {
+      return null;
+    }
+
+    if (evidence.finalUrl !== null && evidence.finalUrl !== evidence.url) {
+      return { score: -1, reason: `Request was redirected to ${evidence.finalUrl}` };
+    } else if (evidence.snippet) {
+      return { score: 1, reason: `Page contains "${evidence.snippet}"` };
+    }
+    return null;
+  },
+};
+
+/**
+ * For generated user name variants, a point if the same variant was found on
+ * other sites and a penalty if it was found nowhere else.
+ *
+ * Needs the search that produced the account.
+ */
+export const variantAgreementScorer: ConfidenceScorer = {
+  name: 'variantAgreement',
+  weight: 1,
+  score: (account, context) => {
+    if (!context.search || account.variant === null || !(account instanceof RegisteredAccount)) {
+      return null;
+    }
+
+    const others = (context.search.resultsByUser[account.userName] || []).filter(other => {
+      return other !== account && other instanceof RegisteredAccount;
+    });
+
+    if (others.length === 0) {
+      return { score: -1, reason: `Generated user name '${account.userName}' was not found on any other site` };
+    }
+    return {
+      score: 1,
+      reason: `Generated user name '${account.userName}' was also found on ${others.length} other site(s)`,
+    };
+  },
+};
+
+/**
+ * Every built-in scorer.
+ *
+ * The rating of a plain name match is still the original formula: 3 for the user name, plus 1 per
+ * first name and 2 per last name, capped at 10. Site reliability, privacy rating, and evidence add
+ * up to less than half a point either way, so they only show up in `total` and the explanation.
+ * Generated user name variants move a full point up or down depending on whether other sites agree.
+ */
+export const DEFAULT_CONFIDENCE_SCORERS: ConfidenceScorer[] = [
+  userNameScorer,
+  firstNameScorer,
+  lastNameScorer,
+  siteReliabilityScorer,
+  privacyRatingScorer,
+  evidenceScorer,
+  variantAgreementScorer,
+];
+
+////  Engine  ////
+
+/**
+ * Runs each scorer over an account and adds up the weighted results.
+ */
+export class ConfidenceEngine {
+  public scorers: ConfidenceScorer[];
+
+  constructor(scorers: ConfidenceScorer[] = DEFAULT_CONFIDENCE_SCORERS) {
+    this.scorers = [...scorers];
+  }
+
+  /**
+   * Add `scorer`, replacing any scorer with the same name.
+   */
+  public add(scorer: ConfidenceScorer) {
+    this.remove(scorer.name);
+    this.scorers.push(scorer);
+  }
+
+  /**
+   * Remove the scorer named `name`. Returns `true` if it was found.
+   */
+  public remove(name: string) {
+    const index = this.scorers.findIndex(scorer => scorer.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.scorers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Score `account` and return each signal that contributed.
+   */
+  public explain(account: AutoSearchAccount, context: ConfidenceContext = {}): ConfidenceExplanation {
+    const signals: ConfidenceSignal[] = [];
+    if (context.search === undefined) {
+      context = { ...context, search: findSearch(account) };
+    }
+
+    for (const scorer of this.scorers) {
+      let result;
+      try {
+        result = scorer.score(account, context);
+      } catch (e) {
+        console.warn(`Confidence scorer '${scorer.name}' failed on '${account.id}': ${e}`);
+        continue;
+      }
+
+      if (result === null) {
+        continue;
+      }
+
+      signals.push({
+        scorer: scorer.name,
+        weight: scorer.weight,
+        score: result.score,
+        points: scorer.weight * result.score,
+        reason: result.reason,
+      });
+    }
+
+    const total = signals.reduce((sum, signal) => sum + signal.points, 0);
+    const rating = Math.min(Math.max(Math.round(total), 0), 10) as ConfidenceRating;
+
+    return { rating, total, signals };
+  }
+
+  /**
+   * Score `account`.
+   */
+  public rate(account: AutoSearchAccount, context: ConfidenceContext = {}): ConfidenceRating {
+    return this.explain(account, context).rating;
+  }
+}
+
+/**
+ * Engine used by `AutoSearchAccount.confidence` and `AutoSearchAccount.explainConfidence()`.
+ *
+ * Add or remove scorers here to change ratings globally.
+ */
+export const confidenceEngine = new ConfidenceEngine();
+
+/**
+ * Return the loaded search that produced `account`, or `null` if it isn't a search result.
+ */
+const findSearch = (account: AutoSearchAccount) => {
+  return account.searchId === null ? null : Search.cache.get(account.searchId) || null;
+};
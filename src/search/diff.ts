@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Compare the results of two executions of a `SearchDefinition`.
+ */
+
+import { PouchDbId } from 'db';
+import { AutoSearchAccount, FailedAccount, RegisteredAccount, toAccountId, UnregisteredAccount } from './accounts';
+import { DEFAULT_PERSONA_ID, Search } from './search';
+
+/**
+ * Same site/user name pair in both searches.
+ *
+ * `before` or `after` is `null` if that search has no result for it.
+ */
+export interface SearchDiffEntry {
+  /** Account ID from `toAccountId()`. Doesn't include either search's prefix. */
+  id: PouchDbId;
+  siteName: string;
+  userName: string;
+  /** Persona that owns the user name in `after`, or in `before` if `after` has no result. */
+  personaId: string;
+  before: AutoSearchAccount | null;
+  after: AutoSearchAccount | null;
+}
+
+/**
+ * Changes between two searches, keyed by account ID.
+ *
+ * An entry can appear in more than one list. For example, a site that failed
+ * before and found the account after is in both `registered` and `failureChanged`.
+ */
+export interface SearchDiff {
+  /** Registered after, but not registered (or not searched) before. */
+  registered: { [id: string]: SearchDiffEntry };
+  /**
+   * Registered before, but unregistered after or missing from it.
+   * `after` is `null` if the site wasn't searched, for example because it was excluded or removed.
+   */
+  disappeared: { [id: string]: SearchDiffEntry };
+  /** Failed in one search but not the other. */
+  failureChanged: { [id: string]: SearchDiffEntry };
+  /** Matched first/last names differ between the searches. */
+  nameMatchesChanged: { [id: string]: SearchDiffEntry };
+}
+
+/**
+ * Return what changed between `before` and `after`.
+ *
+ * Usually these are two executions of the same `SearchDefinition`,
+ * but any two searches can be compared. Results that are only in one search
+ * count towards `registered` if they are registered in `after`, and towards
+ * `disappeared` if they are registered in `before`. Otherwise they are ignored.
+ */
+export const diff = (before: Search, after: Search): SearchDiff => {
+  const result: SearchDiff = {
+    registered: {},
+    disappeared: {},
+    failureChanged: {},
+    nameMatchesChanged: {},
+  };
+
+  const entries: { [id: string]: SearchDiffEntry } = {};
+  const getEntry = (account: AutoSearchAccount) => {
+    const id = toAccountId(account.site, account.userName);
+    entries[id] = entries[id] || {
+      id,
+      siteName: account.site.name,
+      userName: account.userName,
+      personaId: DEFAULT_PERSONA_ID,
+      before: null,
+      after: null,
+    };
+    return entries[id];
+  };
+
+  for (const account of before.results) {
+    getEntry(account).before = account;
+  }
+  for (const account of after.results) {
+    getEntry(account).after = account;
+  }
+
+  for (const id of Object.keys(entries)) {
+    const entry = entries[id];
+    const previous = entry.before;
+    const current = entry.after;
+    entry.personaId = (current || previous)!.personaId || DEFAULT_PERSONA_ID;
+
+    if (current instanceof RegisteredAccount && !(previous instanceof RegisteredAccount)) {
+      result.registered[id] = entry;
+    }
+
+    if (previous instanceof RegisteredAccount && (current === null || current instanceof UnregisteredAccount)) {
+      result.disappeared[id] = entry;
+    }
+
+    if (previous === null || current === null) {
+      continue;
+    }
+
+    if (previous instanceof FailedAccount !== current instanceof FailedAccount) {
+      result.failureChanged[id] = entry;
+    }
+
+    if (
+      !sameNames(previous.matchedFirstNames, current.matchedFirstNames) ||
+      !sameNames(previous.matchedLastNames, current.matchedLastNames)
+    ) {
+      result.nameMatchesChanged[id] = entry;
+    }
+  }
+
+  return result;
+};
+
+const sameNames = (a: string[], b: string[]) => {
+  const sortedA = [...a].sort();
+  const sortedB = [...b].sort();
+  return sortedA.length === sortedB.length && sortedA.every((name, i) => name === sortedB[i]);
+};
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Typed events emitted while a `Search` runs.
+ */
+
+import { EventEmitter } from 'events';
+import { Site } from 'sites';
+import { AutoSearchAccount } from './accounts';
+import { SearchState } from './search';
+
+/**
+ * Snapshot of how far along a running `Search` is.
+ */
+export interface SearchProgress {
+  /** Number of site/user name pairs with a result. */
+  completed: number;
+  /** Number of site/user name pairs to search. */
+  total: number;
+  /** Same as `Search.progress`. */
+  percent: number;
+  /**
+   * Estimated time (ms) until the search finishes, based on recent results.
+   * `null` until there is enough data to make a guess.
+   */
+  eta: number | null;
+}
+
+/**
+ * Payload for each event emitted by `Search.events`.
+ */
+export interface SearchEventMap {
+  /** ID of an account that was added to `Search.results`. */
+  result: string;
+  stateChange: { previous: SearchState; state: SearchState };
+  /** A request for `userName` on `site` is about to be sent. `personaId` is the persona that owns `userName`. */
+  siteStarted: { site: Site; userName: string; personaId: string };
+  /** A result for `userName` on `site` was stored. `personaId` is the persona that owns `userName`. */
+  siteFinished: { site: Site; userName: string; personaId: string; account: AutoSearchAccount };
+  progress: SearchProgress;
+  /** The search failed. Individual sites that fail are reported as `FailedAccount`s instead. */
+  error: { error: any };
+  /** The search stopped running. It has completed, failed, been paused, or been cancelled. */
+  done: { state: SearchState };
+}
+
+export type SearchEventName = keyof SearchEventMap;
+
+/**
+ * One event from iterating over `Search.events`.
+ */
+export type SearchEvent = { [K in SearchEventName]: { type: K; data: SearchEventMap[K] } }[SearchEventName];
+
+/**
+ * `EventEmitter` for the events in `SearchEventMap`.
+ *
+ * It can also be iterated over with `for await` to follow a search without
+ * listening to each event. Iteration ends after the next `done` event.
+ *
+ * Unlike a plain `EventEmitter`, emitting `error` without a listener does not throw.
+ */
+export class SearchEventEmitter extends EventEmitter {
+  public on<K extends SearchEventName>(event: K, listener: (data: SearchEventMap[K]) => void): this {
+    return super.on(event, listener);
+  }
+
+  public once<K extends SearchEventName>(event: K, listener: (data: SearchEventMap[K]) => void): this {
+    return super.once(event, listener);
+  }
+
+  public off<K extends SearchEventName>(event: K, listener: (data: SearchEventMap[K]) => void): this {
+    return super.removeListener(event, listener);
+  }
+
+  public emit<K extends SearchEventName>(event: K, data: SearchEventMap[K]): boolean {
+    if (event === 'error' && this.listenerCount('error') === 0) {
+      return false;
+    }
+    return super.emit(event, data);
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterableIterator<SearchEvent> {
+    return new SearchEventIterator(this);
+  }
+}
+
+const EVENT_NAMES: SearchEventName[] = [
+  'result',
+  'stateChange',
+  'siteStarted',
+  'siteFinished',
+  'progress',
+  'error',
+  'done',
+];
+
+/**
+ * Buffers events from a `SearchEventEmitter` until they are requested.
+ */
+class SearchEventIterator implements AsyncIterableIterator<SearchEvent> {
+  private buffer: SearchEvent[] = [];
+  private waiting: ((result: IteratorResult<SearchEvent>) => void) | null = null;
+  private finished = false;
+  private listeners: { [event: string]: (data: any) => void } = {};
+
+  constructor(private emitter: SearchEventEmitter) {
+    for (const type of EVENT_NAMES) {
+      this.listeners[type] = data => this.push({ type, data } as SearchEvent);
+      emitter.on(type, this.listeners[type]);
+    }
+  }
+
+  public next(): Promise<IteratorResult<SearchEvent>> {
+    const event = this.buffer.shift();
+    if (event !== undefined) {
+      return Promise.resolve({ value: event, done: false });
+    }
+
+    if (this.finished) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+
+  public return(): Promise<IteratorResult<SearchEvent>> {
+    this.finish();
+    this.buffer.length = 0;
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  public [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  private push(event: SearchEvent) {
+    if (this.finished) {
+      return;
+    }
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: event, done: false });
+    } else {
+      this.buffer.push(event);
+    }
+
+    if (event.type === 'done') {
+      this.finish();
+    }
+  }
+
+  private finish() {
+    this.finished = true;
+    for (const type of EVENT_NAMES) {
+      this.emitter.removeListener(type, this.listeners[type]);
+    }
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+}
+
+/**
+ * Estimates time remaining from the rate of the most recent results.
+ */
+export class EtaEstimator {
+  private samples: number[] = [];
+
+  /**
+   * @param windowSize Number of recent results used to compute the rate
+   */
+  constructor(private windowSize: number = 20) {}
+
+  /**
+   * Record that a result finished at `now`.
+   */
+  public record(now: number = Date.now()) {
+    this.samples.push(now);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Estimated time (ms) to finish `remaining` more results, or `null` without enough data.
+   */
+  public estimate(remaining: number): number | null {
+    if (remaining <= 0) {
+      return 0;
+    }
+
+    if (this.samples.length < 2) {
+      return null;
+    }
+
+    const elapsed = this.samples[this.samples.length - 1] - this.samples[0];
+    const perResult = elapsed / (this.samples.length - 1);
+    return Math.round(perResult * remaining);
+  }
+
+  /**
+   * Forget recent results, e.g. after a pause.
+   */
+  public reset() {
+    this.samples.length = 0;
+  }
+}
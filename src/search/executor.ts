@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Worker pool used to run `Search` probes concurrently.
+ */
+
+import { Site } from 'sites';
+import { isAbortError } from './abort';
+
+/**
+ * Limits used by `SearchExecutor`.
+ */
+export interface ExecutorOptions {
+  /** Maximum number of probes in flight across all hosts. */
+  concurrency: number;
+  /** Maximum number of probes in flight against a single hostname. */
+  perHostConcurrency: number;
+}
+
+/**
+ * Options used by any `Search` that doesn't override `Search.executorOptions`.
+ *
+ * Edit this to change the limits globally.
+ */
+export const DEFAULT_EXECUTOR_OPTIONS: ExecutorOptions = {
+  concurrency: 8,
+  perHostConcurrency: 2,
+};
+
+/**
+ * Single site/username pair to probe.
+ *
+ * Indexes refer to `Search.siteSlots` and `definition.identifiers`
+ * so that the executor can report where a paused search should resume.
+ */
+export interface SearchTask {
+  siteIndex: number;
+  userNameIndex: number;
+  site: Site;
+  userName: string;
+  host: string;
+}
+
+/**
+ * Return the hostname that a probe for `userName` on `site` will be sent to.
+ * Pass `email` for email probes, which are sent to `site.emailProbe.url` instead.
+ *
+ * Falls back to the site name if the URL can't be parsed so that the
+ * site still gets its own per-host limit.
+ */
+export const getProbeHost = (site: Site, userName: string, email: string | null = null) => {
+  const template = email !== null && site.emailProbe ? site.emailProbe.url : site.urlProbe || site.url || site.urlMain;
+
+  try {
+    return new URL(template.replace('{}', encodeURIComponent(email ?? userName))).hostname;
+  } catch (e) {
+    return site.name;
+  }
+};
+
+/**
+ * Runs `SearchTask`s through `worker` with a global concurrency limit and
+ * a per-hostname concurrency limit.
+ *
+ * Tasks are dispatched in the order given, except that a task whose host is
+ * saturated is skipped over until that host frees up. Tasks can therefore
+ * finish out of order. Anything that hasn't finished is available via `pending`
+ * (in the original order) once `run()` resolves.
+ *
+ * A task whose worker rejects with an `AbortError` is treated as unfinished
+ * rather than failed. Make sure `shouldContinue()` returns `false` before
+ * aborting or the task will be dispatched again.
+ */
+export class SearchExecutor {
+  /** Tasks that haven't been dispatched yet. */
+  private queue: SearchTask[];
+  /** Tasks that have been dispatched but haven't finished yet. */
+  private active: SearchTask[] = [];
+  private activeByHost: { [host: string]: number } = {};
+  private error: any = null;
+
+  private resolveRun: (() => void) | null = null;
+  private rejectRun: ((reason: any) => void) | null = null;
+
+  /**
+   * @param tasks Tasks to run, in the order they should be dispatched
+   * @param worker Function that performs a single task
+   * @param shouldContinue Checked before each dispatch. Return `false` to stop
+   * dispatching (i.e. pause or cancel). In-flight tasks are still awaited.
+   * @param options Concurrency limits
+   */
+  constructor(
+    tasks: SearchTask[],
+    private worker: (task: SearchTask) => Promise<void>,
+    private shouldContinue: () => boolean = () => true,
+    private options: ExecutorOptions = DEFAULT_EXECUTOR_OPTIONS,
+  ) {
+    this.queue = tasks.slice();
+  }
+
+  /**
+   * Tasks that have not finished, in their original order.
+   */
+  public get pending() {
+    return this.active.concat(this.queue).sort(compareTasks);
+  }
+
+  /**
+   * Run until all tasks finish or `shouldContinue()` returns `false`.
+   *
+   * Rejects with the first error thrown by `worker` after all in-flight
+   * tasks have settled. No new tasks are dispatched after an error.
+   */
+  public async run() {
+    await new Promise<void>((resolve, reject) => {
+      this.resolveRun = resolve;
+      this.rejectRun = reject;
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Fill any open slots with tasks whose host has capacity.
+   */
+  private dispatch() {
+    const concurrency = Math.max(1, this.options.concurrency);
+    const perHostConcurrency = Math.max(1, this.options.perHostConcurrency);
+
+    while (this.error === null && this.active.length < concurrency && this.shouldContinue()) {
+      const index = this.queue.findIndex(queued => (this.activeByHost[queued.host] || 0) < perHostConcurrency);
+      if (index === -1) {
+        break;
+      }
+
+      const [task] = this.queue.splice(index, 1);
+      // tslint:disable-next-line:no-floating-promises
+      this.execute(task);
+    }
+
+    if (this.active.length === 0) {
+      this.finish();
+    }
+  }
+
+  private async execute(task: SearchTask) {
+    this.active.push(task);
+    this.activeByHost[task.host] = (this.activeByHost[task.host] || 0) + 1;
+
+    try {
+      await this.worker(task);
+    } catch (e) {
+      // Put it back so that it still shows up in `pending`
+      this.queue.push(task);
+      if (!isAbortError(e)) {
+        this.error = this.error || e;
+      }
+    }
+
+    this.active.splice(this.active.indexOf(task), 1);
+    this.activeByHost[task.host]--;
+
+    this.dispatch();
+  }
+
+  private finish() {
+    const resolve = this.resolveRun;
+    const reject = this.rejectRun;
+    this.resolveRun = null;
+    this.rejectRun = null;
+
+    if (this.error !== null) {
+      if (reject) reject(this.error);
+    } else if (resolve) {
+      resolve();
+    }
+  }
+}
+
+const compareTasks = (a: SearchTask, b: SearchTask) => {
+  return a.siteIndex - b.siteIndex || a.userNameIndex - b.userNameIndex;
+};
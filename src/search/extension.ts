@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Message-based RPC with the TRACE browser extension.
+ */
+
+import { getRandomId } from 'db';
+import { ExtensionRpcCancel, ExtensionRpcRequest, ExtensionRpcResponse } from 'meta';
+import { abortError } from './abort';
+
+/**
+ * The parts of `window.__TRACE_EXTENSION_HOOK__` needed for RPC.
+ */
+export interface ExtensionRpcHook {
+  postMessage?: (message: ExtensionRpcRequest | ExtensionRpcCancel) => void;
+  addMessageListener?: (listener: (message: ExtensionRpcResponse) => void) => void;
+}
+
+interface PendingCall {
+  resolve: (result: any) => void;
+  reject: (reason: any) => void;
+}
+
+/**
+ * Client for calling methods in the TRACE browser extension.
+ *
+ * Each call posts an `ExtensionRpcRequest` through the hook and resolves
+ * when the `ExtensionRpcResponse` with the same `id` comes back.
+ */
+export class ExtensionRpc {
+  private pending: { [id: string]: PendingCall } = {};
+  private listening = false;
+
+  constructor(private hook: ExtensionRpcHook) {}
+
+  /**
+   * Call `method` in the extension.
+   *
+   * Rejects with an `AbortError` if `signal` is aborted before the extension replies,
+   * and tells the extension to stop the call.
+   */
+  public call<T = any>(method: string, params: any, signal?: AbortSignal | null): Promise<T> {
+    const hook = this.hook;
+    if (!hook.postMessage || !hook.addMessageListener) {
+      return Promise.reject(new Error('TRACE browser extension does not support RPC!'));
+    }
+
+    if (!this.listening) {
+      hook.addMessageListener(message => this.handleMessage(message));
+      this.listening = true;
+    }
+
+    const id = getRandomId();
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const onAbort = () => {
+        delete this.pending[id];
+        hook.postMessage!({ type: 'trace-rpc-cancel', id });
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      this.pending[id] = {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: reason => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+      };
+
+      hook.postMessage!({ type: 'trace-rpc-request', id, method, params });
+    });
+  }
+
+  private handleMessage(message: ExtensionRpcResponse) {
+    if (!message || message.type !== 'trace-rpc-response') {
+      return;
+    }
+
+    const call = this.pending[message.id];
+    if (call === undefined) {
+      // Already aborted or not ours
+      return;
+    }
+    delete this.pending[message.id];
+
+    if (message.error !== undefined) {
+      call.reject(new Error(`TRACE browser extension: ${message.error}`));
+    } else {
+      call.resolve(message.result);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Extractor for the Docker Hub user API (the site's `urlProbe`).
+ */
+
+import { SiteExtractor } from './index';
+import { parseJson, toIsoDate } from './helpers';
+
+/**
+ * The date the account was created.
+ */
+export const extractDockerHub: SiteExtractor = ({ body, userName }) => {
+  const user = parseJson(body);
+  if (!user || typeof user !== 'object' || String(user.username).toLowerCase() !== userName.toLowerCase()) {
+    return null;
+  }
+
+  return {
+    joinedAt: toIsoDate(user.date_joined),
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Extractor for GitHub profile pages.
+ */
+
+import { SiteExtractor } from './index';
+import { parseCount } from './helpers';
+
+const FOLLOWERS_REGEXP = /<span[^>]*>\s*([0-9.,]+[kmb]?)\s*<\/span>\s*followers\b/i;
+const FOLLOWING_REGEXP = /<span[^>]*>\s*([0-9.,]+[kmb]?)\s*<\/span>\s*following\b/i;
+const REPOSITORIES_TAB_REGEXP = /<a\s[^>]*href="[^"]*\?tab=repositories"[^>]*>([\s\S]*?)<\/a>/i;
+const COUNTER_REGEXP = /<span[^>]*class="Counter[^"]*"[^>]*>([^<]*)<\/span>/i;
+const CONTRIBUTION_REGEXP = /<rect\s[^>]*data-date="[^"]*"[^>]*>/gi;
+
+/**
+ * Followers, following, and repository counts, plus the last day with a contribution.
+ */
+export const extractGitHub: SiteExtractor = ({ body }) => {
+  const followers = FOLLOWERS_REGEXP.exec(body);
+  const following = FOLLOWING_REGEXP.exec(body);
+  const repositoriesTab = REPOSITORIES_TAB_REGEXP.exec(body);
+  const repositories = repositoriesTab && COUNTER_REGEXP.exec(repositoriesTab[1]);
+
+  return {
+    followers: parseCount(followers && followers[1]),
+    following: parseCount(following && following[1]),
+    posts: parseCount(repositories && repositories[1]),
+    lastActiveAt: findLastContribution(body),
+  };
+};
+
+/**
+ * Latest `data-date` in the contribution graph with a non-zero `data-count`.
+ */
+const findLastContribution = (body: string) => {
+  let last: string | undefined;
+
+  for (const rect of body.match(CONTRIBUTION_REGEXP) || []) {
+    const date = /data-date="(\d{4}-\d{2}-\d{2})"/.exec(rect);
+    const count = /data-count="(\d+)"/.exec(rect);
+    if (date && count && parseInt(count[1], 10) > 0 && (last === undefined || date[1] > last)) {
+      last = date[1];
+    }
+  }
+
+  return last && `${last}T00:00:00.000Z`;
+};
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Extractor for Hacker News user pages.
+ */
+
+import { SiteExtractor } from './index';
+import { parseCount, toIsoDate } from './helpers';
+
+const CREATED_DAY_REGEXP = /created:<\/td>\s*<td[^>]*>\s*<a[^>]*href="[^"]*day=(\d{4}-\d{2}-\d{2})/i;
+const TIMESTAMP_REGEXP = /<td[^>]*timestamp="(\d+)"/i;
+const KARMA_REGEXP = /karma:<\/td>\s*<td[^>]*>\s*([0-9,]+)/i;
+
+/**
+ * Karma and the date the account was created.
+ */
+export const extractHackerNews: SiteExtractor = ({ body }) => {
+  const created = CREATED_DAY_REGEXP.exec(body);
+  const timestamp = TIMESTAMP_REGEXP.exec(body);
+  const karma = KARMA_REGEXP.exec(body);
+
+  return {
+    reputation: parseCount(karma && karma[1]),
+    joinedAt: created ? toIsoDate(created[1]) : toIsoDate(timestamp ? parseInt(timestamp[1], 10) : null),
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Parsing helpers shared by site extractors.
+ */
+
+const COUNT_SUFFIXES: { [suffix: string]: number } = {
+  k: 1e3,
+  m: 1e6,
+  b: 1e9,
+};
+
+/**
+ * Parse counts the way sites display them, e.g. `1,234`, `1.2k`, or `3M`.
+ *
+ * Returns `undefined` if `text` isn't a count.
+ */
+export const parseCount = (text: string | null | undefined): number | undefined => {
+  if (!text) {
+    return undefined;
+  }
+
+  const match = /^([0-9][0-9,]*(?:\.[0-9]+)?)\s*([kmb])?$/i.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  const multiplier = match[2] ? COUNT_SUFFIXES[match[2].toLowerCase()] : 1;
+  return Math.round(value * multiplier);
+};
+
+/**
+ * Normalize a date (or Unix timestamp in seconds) to an ISO 8601 string.
+ *
+ * Returns `undefined` if it can't be parsed.
+ */
+export const toIsoDate = (value: string | number | null | undefined): string | undefined => {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Parse `body` as JSON, or return `null` if it isn't valid.
+ */
+export const parseJson = (body: string): any => {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    return null;
+  }
+};
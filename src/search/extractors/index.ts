@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Registry of site-specific extractors that read details like
+ * follower counts and join dates out of a profile page.
+ */
+
+import { allSites, Site } from 'sites';
+import { extractDockerHub } from './dockerHub';
+import { extractGitHub } from './github';
+import { extractHackerNews } from './hackerNews';
+
+/**
+ * Details that only some sites have. Missing fields weren't found on the page.
+ *
+ * Dates are ISO 8601 strings so that they can be stored as they are.
+ */
+export interface SiteProfileFields {
+  followers?: number;
+  following?: number;
+  /** Posts, repositories, or whatever else the site counts as content. */
+  posts?: number;
+  /** Karma, reputation, points, etc. */
+  reputation?: number;
+  joinedAt?: string;
+  lastActiveAt?: string;
+}
+
+/**
+ * Page that a site extractor reads from.
+ */
+export interface SiteExtractorInput {
+  /** Response body. HTML or JSON, depending on the site's `url`/`urlProbe`. */
+  body: string;
+  /** URL the body came from, after redirects. */
+  url: string;
+  userName: string;
+}
+
+/**
+ * Reads `SiteProfileFields` from a site's profile page.
+ *
+ * Returns `null` if the page doesn't look like what the extractor expects.
+ */
+export type SiteExtractor = (input: SiteExtractorInput) => SiteProfileFields | null;
+
+const extractors: { [siteName: string]: SiteExtractor } = {
+  'Docker Hub': extractDockerHub,
+  GitHub: extractGitHub,
+  HackerNews: extractHackerNews,
+};
+
+/**
+ * Use `extractor` for results on the site named `siteName`, replacing any existing extractor.
+ *
+ * `siteName` must be a key of `allSites`.
+ */
+export const registerSiteExtractor = (siteName: string, extractor: SiteExtractor) => {
+  if (!(siteName in allSites)) {
+    throw new Error(`Can't register an extractor for unknown site '${siteName}'`);
+  }
+  extractors[siteName] = extractor;
+};
+
+/**
+ * Stop using the extractor for `siteName`. Returns `true` if there was one.
+ */
+export const unregisterSiteExtractor = (siteName: string) => {
+  if (!(siteName in extractors)) {
+    return false;
+  }
+  delete extractors[siteName];
+  return true;
+};
+
+export const getSiteExtractor = (siteName: string): SiteExtractor | null => {
+  return extractors[siteName] || null;
+};
+
+/**
+ * Run the extractor registered for `site` over `input`.
+ *
+ * Returns `null` if there is no extractor, it failed, or it found nothing.
+ */
+export const extractSiteProfile = (site: Site, input: SiteExtractorInput): SiteProfileFields | null => {
+  const extractor = getSiteExtractor(site.name);
+  if (!extractor) {
+    return null;
+  }
+
+  let fields;
+  try {
+    fields = extractor(input);
+  } catch (e) {
+    console.warn(`Extractor for '${site.name}' failed on '${input.url}': ${e}`);
+    return null;
+  }
+
+  if (!fields) {
+    return null;
+  }
+
+  // Leave out anything the extractor couldn't fill in
+  const found: SiteProfileFields = {};
+  for (const key of Object.keys(fields) as (keyof SiteProfileFields)[]) {
+    const value = fields[key];
+    if (value !== undefined && value !== null && !(typeof value === 'number' && isNaN(value))) {
+      copyField(fields, found, key);
+    }
+  }
+
+  return Object.keys(found).length > 0 ? found : null;
+};
+
+/**
+ * Copy the field `key` from `from` to `to`.
+ */
+const copyField = <K extends keyof SiteProfileFields>(from: SiteProfileFields, to: SiteProfileFields, key: K) => {
+  to[key] = from[key];
+};
@@ -1,27 +1,52 @@
 // https://stackoverflow.com/questions/46946380/fetch-api-request-timeout
-import { isNode } from 'browser-or-node';
+import { throwIfAborted } from './abort';
+import { rateLimiter } from './rateLimit';
+import { getDefaultTransport, Transport, TransportResponse } from './transport';
 
+/**
+ * Fetch `url` through `transport`, giving up after `timeout` ms.
+ *
+ * Requests go through `rateLimiter`, so transient failures are retried and
+ * `timeout` applies to each attempt.
+ *
+ * If `signal` is aborted, this rejects with an `AbortError` instead of waiting
+ * for the request (or a rate limit delay) to finish.
+ */
 export default async function fetchWithTimeout(
   url: string,
   options: RequestInit,
   timeout: number = 10000,
-): Promise<Response> {
+  transport: Transport = getDefaultTransport(),
+  signal?: AbortSignal | null,
+): Promise<TransportResponse> {
+  return await rateLimiter.request(url, () => fetchOnce(url, options, timeout, transport, signal), signal);
+}
+
+const fetchOnce = async (
+  url: string,
+  options: RequestInit,
+  timeout: number,
+  transport: Transport,
+  signal?: AbortSignal | null,
+): Promise<TransportResponse> => {
+  throwIfAborted(signal);
+
   const controller = new AbortController();
   const id = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
   options.signal = controller.signal;
 
   try {
-    if (isNode) {
-      // I hate node
-      const fetch = require('node-fetch');
-      return await fetch(url, options);
-    } else {
-      return await fetch(url, options);
-    }
+    return await transport.fetch(url, options);
   } catch (e) {
-    if (e.name === 'AbortError') {
+    // Only report a timeout if the caller didn't abort
+    if (e.name === 'AbortError' && !signal?.aborted) {
       throw new Error(`Request timed out after ${Math.round(timeout / 1000)} seconds`);
     }
     throw e;
+  } finally {
+    clearTimeout(id);
+    signal?.removeEventListener('abort', onAbort);
   }
-}
+};
@@ -1,8 +1,26 @@
 import { toId } from 'db';
 import { Search } from 'search';
 import { Site } from 'sites';
-import { AutoSearchAccount, FailedAccount, RegisteredAccount, UnregisteredAccount } from './accounts';
-import fetchWithTimeout from './fetchWithTimeout'; // fetchWithTimeout(url, options, timeout_ms = 10000)
+import {
+  AutoSearchAccount,
+  FailedAccount,
+  InvalidAccount,
+  ProbeEvidence,
+  RegisteredAccount,
+  UnregisteredAccount,
+} from './accounts';
+import { throwIfAborted } from './abort';
+import { extractSiteProfile, getSiteExtractor } from './extractors';
+import { createFingerprint, fingerprintCache } from './fingerprint';
+import fetchWithTimeout from './fetchWithTimeout'; // fetchWithTimeout(url, options, timeout_ms = 10000, transport, signal)
+import { extractProfileMetadata } from './metadata';
+import { getDefaultTransport, TransportResponse } from './transport';
+
+/** Loose check for something that looks like an email address. */
+const EMAIL_REGEXP = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Error types where a positive result can be a page that every user name gets (a "soft 404"). */
+const FINGERPRINT_ERROR_TYPES = ['status_code', 'response_url'];
 
 /**
  * This function sends a request to the website to search for a specified username.
@@ -10,17 +28,26 @@ import fetchWithTimeout from './fetchWithTimeout'; // fetchWithTimeout(url, opti
  * Returns a JSON with fields denoting whether the account is found or not)
  * @param site JSON with data corresponding to the site currently being searched
  * @param username username to search for
- * @param search Parent search object
+ * @param search Parent search object. Requests use `search.transport` if it is set, otherwise the default transport
+ * @param signal Aborts any request in flight. If aborted, this rejects with an `AbortError` instead of returning a `FailedAccount`
  */
-export const findAccount = async (site: Site, username: string, search?: Search): Promise<AutoSearchAccount> => {
-  const errorType: string = site.errorType; // status_code, message, or response_url
+export const findAccount = async (
+  site: Site,
+  username: string,
+  search?: Search,
+  signal?: AbortSignal | null,
+): Promise<AutoSearchAccount> => {
+  const errorType: string = site.errorType; // status_code, message, response_url, json_api, or regex
   const url: string = site.url; // url for website profile page
   // const urlMain: string = site.urlMain                                    // url for website home page
   const errorMsg: string | string[] | undefined = site.errorMsg; // if errorType = message, this message will pop up if the profile doesn't exist
-  // const regexCheck: string | undefined = site.regexCheck                  // todo
+  const presenceMsg: string | string[] | undefined = site.presenceMsg; // if errorType = message, this message will be on the page if the profile exists
   const errorUrl: string | undefined = site.errorUrl; // if errorType = response_url, this is the url that the use will be redirected to if the profile doesn't exist
+  const jsonPath: string | undefined = site.jsonPath; // if errorType = json_api, path to the value in the response that decides whether the profile exists
+  const jsonValue = site.jsonValue; // if errorType = json_api, the value at jsonPath if the profile exists. Otherwise any non-empty value counts
+  const matchRegex: string | undefined = site.matchRegex; // if errorType = regex, this pattern will be in the page if the profile exists
+  const errorRegex: string | undefined = site.errorRegex; // if errorType = regex, this pattern will be in the page if the profile doesn't exist
   const urlProbe: string | undefined = site.urlProbe; // alternate profile page test url for sites where profiles aren't publicly facing
-  // const noPeriod: string = site.noPeriod || "False"                       // todo (never used?)
   const headers: object = site.headers || {}; // headers to send with the request if needed
   let requestHeadOnly: boolean | undefined = site.request_head_only; // for status_code errorType website -- use a GET request instead of a HEAD request
   if (requestHeadOnly === undefined) {
@@ -28,13 +55,26 @@ export const findAccount = async (site: Site, username: string, search?: Search)
   }
   // const omit: boolean = site.omit || false                                // tells program to not process the site
 
-  const firstNames: string[] = search?.definition.firstNames || [];
-  const lastNames: string[] = search?.definition.lastNames || [];
+  // Only look for the names of the persona that owns this user name
+  const persona = search?.definition.getPersona(username);
+  const firstNames: string[] = persona?.firstNames || [];
+  const lastNames: string[] = persona?.lastNames || [];
   const lookForNames: boolean = lastNames.length !== 0 || firstNames.length !== 0;
 
+  // transport used to send the request(s)
+  const transport = search?.transport || getDefaultTransport();
+
   // prefix id for database - return at the end
   const resultIdPrefix = search ? toId(['searchResult'], search.id) : undefined;
 
+  // Don't waste a request on a user name that the site can never accept (regexCheck/noPeriod)
+  const invalidReason = validateUserName(site, username);
+  if (invalidReason !== null) {
+    const invalidAccount = new InvalidAccount(site, username, resultIdPrefix);
+    invalidAccount.reason = invalidReason;
+    return invalidAccount;
+  }
+
   // This came up after misnaming a trace.json site that was supposed to overlay
   // a sherlock.json site. It ended up with only trace.json fields and was missing everything
   if (url === undefined && urlProbe === undefined) {
@@ -51,23 +91,51 @@ export const findAccount = async (site: Site, username: string, search?: Search)
   }
 
   // Take required profile page URL template and replace '{}' with the username
-  const profileUrl = urlProbe === undefined ? url.replace('{}', username) : urlProbe.replace('{}', username);
+  const profileUrlTemplate = urlProbe === undefined ? url : urlProbe;
+  const profileUrl = profileUrlTemplate.replace('{}', username);
 
   // Based on JSON data, find request method
-  const requestHeaders = findRequestHeaders(errorType, headers, requestHeadOnly, lookForNames);
+  // Site extractors and soft 404 detection need the body, so don't let them get a HEAD request
+  const needsBody = lookForNames || getSiteExtractor(site.name) !== null || usesFingerprint(site);
+  const requestHeaders = findRequestHeaders(errorType, headers, requestHeadOnly, needsBody);
 
   let accountFound: boolean = false; // this will be updated to true if account is found during search
   let accountError: string = '';
   let matchedFirstNames: string[] = []; // if accountFound, any first names present in the page will be added to this
   let matchedLastNames: string[] = []; // if accountFound, any last names present in the pages will be added to this
+  let profileBody: string | null = null; // if accountFound, the page body to pull profile details from
+
+  // what we saw during the request - stored on the result
+  const evidence: ProbeEvidence = {
+    method: requestHeaders.method,
+    url: profileUrl,
+    status: null,
+    finalUrl: null,
+    responseTime: null,
+    rule: null,
+    snippet: null,
+  };
+
+  // send the request and record what came back
+  const sendProbe = async () => {
+    const startTime = Date.now();
+    try {
+      const response = await fetchWithTimeout(profileUrl, requestHeaders, undefined, transport, signal);
+      evidence.status = response.status;
+      evidence.finalUrl = response.url || profileUrl;
+      return response;
+    } finally {
+      evidence.responseTime = Date.now() - startTime;
+    }
+  };
 
   switch (errorType) {
     case 'status_code':
       // A 2XX status code (response.status) will be returned if the profile exists.
-      // To save time, use a HEAD request (unless explicitly told not to, or a name needs to be searched for in response body)
-      let statusResponse: Response;
+      // To save time, use a HEAD request (unless explicitly told not to, or the response body is needed for names, extractors, or soft 404 detection)
+      let statusResponse: TransportResponse;
       try {
-        statusResponse = await fetchWithTimeout(profileUrl, requestHeaders);
+        statusResponse = await sendProbe();
       } catch (e) {
         accountError = e.toString();
         break;
@@ -81,42 +149,54 @@ export const findAccount = async (site: Site, username: string, search?: Search)
         statusResponseBody = await statusResponse.text();
         matchedFirstNames = findNames(statusResponseBody, firstNames);
         matchedLastNames = findNames(statusResponseBody, lastNames);
+        profileBody = statusResponseBody;
+        evidence.snippet = findSnippet(statusResponseBody, matchedFirstNames.concat(matchedLastNames));
       }
 
       break;
 
     case 'message':
       // 'errorMsg' will be on the page if the profile does not exist
-      let messageResponse: Response;
+      // 'presenceMsg' (optional) will be on the page if it does
+      if (!isMessageList(errorMsg) || !isMessageList(presenceMsg)) {
+        accountError = `Unsupported error message type: ${typeof errorMsg}/${errorMsg}, ${typeof presenceMsg}/${presenceMsg}`;
+        break;
+      }
+
+      let messageResponse: TransportResponse;
       try {
-        messageResponse = await fetchWithTimeout(profileUrl, requestHeaders);
+        messageResponse = await sendProbe();
       } catch (e) {
         accountError = e.toString();
         break;
       }
 
       const responseBody = await messageResponse.text();
+      const foundErrorMsg = errorMsg === undefined ? null : findMessage(responseBody, errorMsg);
+
+      if (presenceMsg !== undefined) {
+        // Both markers are checked. If they agree with each other, go with it. Otherwise we can't tell
+        const foundPresenceMsg = findMessage(responseBody, presenceMsg);
+        const foundMessages = [foundErrorMsg, foundPresenceMsg].filter((msg): msg is string => msg !== null);
+        evidence.snippet = findSnippet(responseBody, foundMessages);
+
+        if (foundErrorMsg !== null && foundPresenceMsg !== null) {
+          accountError = `Inconclusive: page contains both '${foundErrorMsg}' and '${foundPresenceMsg}'`;
+          break;
+        } else if (foundErrorMsg === null && foundPresenceMsg === null) {
+          // Usually a page that didn't load, a captcha, or a login wall
+          accountError = `Inconclusive: page contains neither errorMsg nor presenceMsg`;
+          break;
+        }
 
-      if (errorMsg === undefined) {
+        accountFound = foundPresenceMsg !== null;
+      } else if (errorMsg === undefined) {
         // edge case
         accountFound = false;
-      } else if (typeof errorMsg === 'string') {
-        // only one error message to check
-        // if the response failed, or the response includes the error message, profile doesn't exist
-        accountFound = !responseContainsError(responseBody, errorMsg);
-      } else if (errorMsg instanceof Array) {
-        // typeof errorMsg is a string[]
-        for (const msg of errorMsg) {
-          if (responseContainsError(responseBody, msg)) {
-            // if the response failed, or the response includes one of the error messages, profile doesn't exist
-            accountFound = false;
-          }
-        }
-        // If neither error message ever popped up, profile exists
-        accountFound = true;
       } else {
-        accountError = `Unsupported error message type: ${typeof errorMsg}/${errorMsg}`;
-        break;
+        // if the response includes one of the error messages, profile doesn't exist
+        accountFound = foundErrorMsg === null;
+        evidence.snippet = foundErrorMsg === null ? null : findSnippet(responseBody, [foundErrorMsg]);
       }
 
       if (accountFound) {
@@ -124,15 +204,17 @@ export const findAccount = async (site: Site, username: string, search?: Search)
         // message_response is already the body text. pass this into findNames
         matchedFirstNames = findNames(responseBody, firstNames);
         matchedLastNames = findNames(responseBody, lastNames);
+        profileBody = responseBody;
+        evidence.snippet = evidence.snippet || findSnippet(responseBody, matchedFirstNames.concat(matchedLastNames));
       }
 
       break;
 
     case 'response_url':
       // Server will respond with 'errorUrl' the profile does not exist
-      let urlResponse: Response;
+      let urlResponse: TransportResponse;
       try {
-        urlResponse = await fetchWithTimeout(profileUrl, requestHeaders);
+        urlResponse = await sendProbe();
       } catch (e) {
         accountError = e.toString();
         break;
@@ -153,6 +235,94 @@ export const findAccount = async (site: Site, username: string, search?: Search)
         }
         matchedFirstNames = findNames(urlResponseBody, firstNames);
         matchedLastNames = findNames(urlResponseBody, lastNames);
+        profileBody = urlResponseBody;
+        evidence.snippet = findSnippet(urlResponseBody, matchedFirstNames.concat(matchedLastNames));
+      }
+
+      break;
+
+    case 'json_api':
+      // The response is JSON, and the value at 'jsonPath' decides whether the profile exists
+      if (jsonPath === undefined) {
+        accountError = `'${site.name}' uses json_api without a jsonPath`;
+        break;
+      }
+
+      let jsonResponse: TransportResponse;
+      try {
+        jsonResponse = await sendProbe();
+      } catch (e) {
+        accountError = e.toString();
+        break;
+      }
+
+      const jsonBody = await jsonResponse.text();
+      let jsonData: any;
+      try {
+        jsonData = JSON.parse(jsonBody);
+      } catch (e) {
+        if (jsonResponse.status >= 400 && jsonResponse.status < 500) {
+          // Plenty of APIs send an HTML error page for users that don't exist
+          accountFound = false;
+        } else {
+          accountError = `Response is not valid JSON: ${e}`;
+        }
+        break;
+      }
+
+      const jsonMatch = evaluateJsonPath(jsonData, jsonPath);
+      accountFound = jsonValue === undefined ? isPresent(jsonMatch) : jsonMatch === jsonValue;
+
+      if (accountFound) {
+        // if the account is found, also look for first and last names in the response
+        matchedFirstNames = findNames(jsonBody, firstNames);
+        matchedLastNames = findNames(jsonBody, lastNames);
+        profileBody = jsonBody;
+        evidence.snippet = findSnippet(jsonBody, matchedFirstNames.concat(matchedLastNames));
+      }
+
+      break;
+
+    case 'regex':
+      // 'matchRegex' will be on the page if the profile exists, 'errorRegex' if it doesn't. Either one is enough
+      let matchRegExp: RegExp | null;
+      let errorRegExp: RegExp | null;
+      try {
+        matchRegExp = matchRegex === undefined ? null : new RegExp(matchRegex, 'i');
+        errorRegExp = errorRegex === undefined ? null : new RegExp(errorRegex, 'i');
+      } catch (e) {
+        accountError = `Invalid regex for '${site.name}': ${e}`;
+        break;
+      }
+
+      if (matchRegExp === null && errorRegExp === null) {
+        accountError = `'${site.name}' uses regex without a matchRegex or errorRegex`;
+        break;
+      }
+
+      let regexResponse: TransportResponse;
+      try {
+        regexResponse = await sendProbe();
+      } catch (e) {
+        accountError = e.toString();
+        break;
+      }
+
+      const regexBody = await regexResponse.text();
+      const errorMatch = errorRegExp && errorRegExp.exec(regexBody);
+      const presenceMatch = matchRegExp && matchRegExp.exec(regexBody);
+
+      // The error pattern wins if both are found
+      accountFound = !errorMatch && (matchRegExp === null || presenceMatch !== null);
+      const decidingMatch = errorMatch || presenceMatch;
+      evidence.snippet = decidingMatch ? findSnippet(regexBody, [decidingMatch[0]]) : null;
+
+      if (accountFound) {
+        // if the account is found, also look for first and last names in the page
+        matchedFirstNames = findNames(regexBody, firstNames);
+        matchedLastNames = findNames(regexBody, lastNames);
+        profileBody = regexBody;
+        evidence.snippet = evidence.snippet || findSnippet(regexBody, matchedFirstNames.concat(matchedLastNames));
       }
 
       break;
@@ -162,22 +332,164 @@ export const findAccount = async (site: Site, username: string, search?: Search)
       break;
   }
 
+  // Some sites answer every user name with the same page. If this one looks like the page
+  // for a user name that is known to be unclaimed, the profile doesn't really exist
+  let softNotFound = false;
+  if (
+    accountFound &&
+    !accountError &&
+    profileBody !== null &&
+    requestHeaders.method !== 'HEAD' &&
+    usesFingerprint(site)
+  ) {
+    const fingerprint = createFingerprint(evidence.status!, evidence.finalUrl || profileUrl, profileBody, username);
+    // Other searches can be waiting on the same baseline, so it doesn't get our signal
+    const baseline = await fingerprintCache.getBaseline(
+      site,
+      async unclaimed => {
+        const baselineUrl = profileUrlTemplate.replace('{}', unclaimed);
+        const response = await fetchWithTimeout(baselineUrl, requestHeaders, undefined, transport);
+        return createFingerprint(response.status, response.url || baselineUrl, await response.text(), unclaimed);
+      },
+      signal,
+    );
+
+    if (baseline !== null && fingerprintCache.matches(baseline, fingerprint)) {
+      accountFound = false;
+      softNotFound = true;
+    }
+  }
+
+  // The request didn't really fail, we stopped it. Don't report a result
+  throwIfAborted(signal);
+
   if (accountError) {
     console.log(`ERROR! - ${site.name} - ${profileUrl} - ${accountError}`);
 
     const failedAccount = new FailedAccount(site, username, resultIdPrefix);
     failedAccount.reason = accountError;
+    failedAccount.evidence = evidence;
     return failedAccount;
   }
 
+  evidence.rule = softNotFound ? 'fingerprint' : errorType;
+
   if (accountFound) {
     const account = new RegisteredAccount(site, username, resultIdPrefix);
     account.matchedFirstNames = matchedFirstNames;
     account.matchedLastNames = matchedLastNames;
+    account.evidence = evidence;
+    // HEAD requests don't have a body, so there won't be anything for these
+    account.metadata = profileBody ? extractProfileMetadata(profileBody, evidence.finalUrl || profileUrl) : null;
+    account.siteProfile = profileBody
+      ? extractSiteProfile(site, { body: profileBody, url: evidence.finalUrl || profileUrl, userName: username })
+      : null;
     return account;
   } else {
-    return new UnregisteredAccount(site, username, resultIdPrefix);
+    const account = new UnregisteredAccount(site, username, resultIdPrefix);
+    account.evidence = evidence;
+    return account;
+  }
+};
+
+/**
+ * This function checks whether an email address has an account on the site, using the site's `emailProbe`.
+ * The result is separate from any user name result on the same site, and its `email` is set to `email`
+ * @param site JSON with data corresponding to the site currently being searched. Must have an `emailProbe`
+ * @param email email address to search for
+ * @param search Parent search object. Requests use `search.transport` if it is set, otherwise the default transport
+ * @param signal Aborts any request in flight. If aborted, this rejects with an `AbortError` instead of returning a `FailedAccount`
+ */
+export const findEmailAccount = async (
+  site: Site,
+  email: string,
+  search?: Search,
+  signal?: AbortSignal | null,
+): Promise<AutoSearchAccount> => {
+  const resultIdPrefix = search ? toId(['searchResult'], search.id) : undefined;
+
+  let account: AutoSearchAccount;
+  const invalidReason = validateEmail(site, email);
+  if (invalidReason !== null) {
+    const invalidAccount = new InvalidAccount(site, email, resultIdPrefix);
+    invalidAccount.reason = invalidReason;
+    account = invalidAccount;
+  } else {
+    account = await findAccount(getEmailProbeSite(site, email), email, search, signal);
+    account.site = site;
+    // Extractors read profile pages, not email lookups
+    account.siteProfile = null;
+  }
+
+  account.email = email;
+  return account;
+};
+
+/**
+ * Returns a reason if `email` can't be searched for on the site, otherwise `null`.
+ * @param site JSON with data corresponding to the site currently being searched
+ * @param email email address to check
+ */
+export const validateEmail = (site: Site, email: string): string | null => {
+  if (!site.emailProbe) {
+    return `${site.name} can't be searched by email`;
+  } else if (!EMAIL_REGEXP.test(email)) {
+    return `'${email}' is not an email address`;
+  }
+  return null;
+};
+
+/**
+ * Returns a copy of the site that `findAccount()` can use to search for `email`.
+ * The `emailProbe` fields are used in place of the user name ones.
+ * The user name rules (regexCheck, noPeriod) and the soft 404 baseline don't apply to emails
+ * @param site JSON with data corresponding to the site currently being searched. Must have an `emailProbe`
+ * @param email email address to search for
+ */
+export const getEmailProbeSite = (site: Site, email: string): Site => {
+  if (!site.emailProbe) {
+    throw new Error(`${site.name} can't be searched by email`);
   }
+
+  const { url, ...detection } = site.emailProbe;
+  return {
+    ...site,
+    errorMsg: undefined,
+    presenceMsg: undefined,
+    errorUrl: undefined,
+    jsonPath: undefined,
+    jsonValue: undefined,
+    matchRegex: undefined,
+    errorRegex: undefined,
+    headers: undefined,
+    request_head_only: undefined,
+    ...detection,
+    url: url.replace('{}', encodeURIComponent(email)),
+    urlProbe: undefined,
+    regexCheck: undefined,
+    noPeriod: undefined,
+    username_unclaimed: '',
+  };
+};
+
+/**
+ * Returns the method and URL of the request that `findAccount()` sends for `username` on the site, without sending it.
+ * Baseline requests for soft 404 detection aren't included
+ * @param site JSON with data corresponding to the site currently being searched
+ * @param username username to search for
+ * @param search Parent search object. If the persona that owns `username` has names to look for, the request is always a 'GET'
+ */
+export const describeProbe = (site: Site, username: string, search?: Search | null) => {
+  const persona = search?.definition.getPersona(username);
+  const lookForNames = persona !== undefined && (persona.firstNames.length !== 0 || persona.lastNames.length !== 0);
+  const needsBody = lookForNames || getSiteExtractor(site.name) !== null || usesFingerprint(site);
+  const requestHeadOnly = site.request_head_only === undefined ? true : site.request_head_only;
+
+  const profileUrlTemplate = site.urlProbe === undefined ? site.url : site.urlProbe;
+  return {
+    method: findRequestHeaders(site.errorType, site.headers, requestHeadOnly, needsBody).method,
+    url: profileUrlTemplate.replace('{}', username),
+  };
 };
 
 /****************************************/
@@ -185,37 +497,153 @@ export const findAccount = async (site: Site, username: string, search?: Search)
 /****************************************/
 
 /**
- * This function simply checks the response body for a specified error message
- * @param response response body to check
- * @param errorMsg errorMsg to look for in 'response'
+ * This function checks a username against the site's `regexCheck` and `noPeriod` rules.
+ * Returns a reason if the username can never exist on the site, otherwise `null`.
+ * @param site JSON with data corresponding to the site currently being searched
+ * @param username username to check
  */
-const responseContainsError = (response: string | undefined, errorMsg: string) => {
-  if (response === undefined) {
-    // response doesn't include errorMsg, but request clearly failed, so return true anyways since the profile doesn't exist
-    return true;
+export const validateUserName = (site: Site, username: string): string | null => {
+  if (site.noPeriod === 'True' && username.includes('.')) {
+    return `'${username}' cannot contain a period on ${site.name}`;
   }
 
-  return response.toLowerCase().includes(errorMsg.toLowerCase());
+  if (site.regexCheck) {
+    // Site definitions come from Sherlock (Python), so a pattern may not be valid JavaScript
+    let regex: RegExp;
+    try {
+      regex = new RegExp(site.regexCheck);
+    } catch (e) {
+      console.warn(`Ignoring invalid regexCheck '${site.regexCheck}' for '${site.name}': ${e}`);
+      return null;
+    }
+
+    if (!regex.test(username)) {
+      return `'${username}' does not match ${site.regexCheck} on ${site.name}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * This function returns the first of `messages` that appears in the response body (case-insensitive), or null if none do
+ * @param responseBody response body to check
+ * @param messages message or messages to look for in 'responseBody'
+ */
+const findMessage = (responseBody: string, messages: string | string[]): string | null => {
+  const lowerBody = responseBody.toLowerCase();
+
+  for (const message of typeof messages === 'string' ? [messages] : messages) {
+    if (lowerBody.includes(message.toLowerCase())) {
+      return message;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * This function checks that an `errorMsg`/`presenceMsg` from a site definition is a string, a string[], or missing
+ * @param messages value to check
+ */
+const isMessageList = (messages: any): messages is string | string[] | undefined => {
+  return (
+    messages === undefined ||
+    typeof messages === 'string' ||
+    (Array.isArray(messages) && messages.every(message => typeof message === 'string'))
+  );
+};
+
+/**
+ * This function returns the value at `path` in parsed JSON, or undefined if it isn't there.
+ * Paths are keys separated by dots, with array indexes in brackets or as plain keys, e.g. `data.users[0].name`.
+ * A leading `$` is ignored
+ * @param data parsed JSON response
+ * @param path path to the value
+ */
+const evaluateJsonPath = (data: any, path: string): any => {
+  const keys = path
+    .replace(/^\$/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(key => key.length > 0);
+
+  let value = data;
+  for (const key of keys) {
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      return undefined;
+    }
+    value = value[key];
+  }
+
+  return value;
+};
+
+/**
+ * This function decides whether a value from `evaluateJsonPath()` means the profile exists when there is no `jsonValue`.
+ * Missing, `null`, `false`, empty strings, and empty arrays don't count
+ * @param value value to check
+ */
+const isPresent = (value: any) => {
+  if (value === undefined || value === null || value === false || value === '') {
+    return false;
+  }
+  return !(Array.isArray(value) && value.length === 0);
+};
+
+/**
+ * This function returns the text around the first of `needles` found in the response body, or null if none are found.
+ * Whitespace is collapsed so that the snippet fits on one line
+ * @param responseBody response body to search
+ * @param needles strings to look for (case-insensitive)
+ * @param radius number of characters to keep on each side of the match
+ */
+const findSnippet = (responseBody: string, needles: string[], radius: number = 60): string | null => {
+  const lowerBody = responseBody.toLowerCase();
+
+  for (const needle of needles) {
+    const index = lowerBody.indexOf(needle.toLowerCase());
+    if (needle.length === 0 || index === -1) {
+      continue;
+    }
+
+    const start = Math.max(0, index - radius);
+    const end = Math.min(responseBody.length, index + needle.length + radius);
+    return responseBody.slice(start, end).replace(/\s+/g, ' ').trim();
+  }
+
+  return null;
+};
+
+/**
+ * This function checks whether a positive result on the site is compared against the page for `username_unclaimed`
+ * @param site JSON with data corresponding to the site currently being searched
+ */
+const usesFingerprint = (site: Site) => {
+  return (
+    fingerprintCache.options.enabled && FINGERPRINT_ERROR_TYPES.includes(site.errorType) && !!site.username_unclaimed
+  );
 };
 
 /**
  * This function generates an object that contains the needed request headers, based off of the values in the site JSONs
  * @param errorType status_code, response_url, or message. This is the way for the program to check whether or not the profile exists for this site
  * @param requestHeadOnly if true (or undefined), send only a 'HEAD' request. Otherwise, send a 'GET' request.
+ * @param needsBody if true, always send a 'GET' request so that the response body can be searched
  */
 const findRequestHeaders = (
   errorType: string,
   headers: {} | undefined,
   requestHeadOnly: boolean | undefined,
-  lookForNames: boolean,
+  needsBody: boolean,
 ) => {
   let requestType = 'GET';
 
   if (errorType === 'status_code') {
     if (requestHeadOnly === undefined || requestHeadOnly === true) {
       // requestHeadOnly needs to explicitly set as false to make request method 'GET'
-      if (!lookForNames) {
-        // If you don't have to look for names, HEAD request is fine. Otherwise, if you are, you MUST use a GET request to get response body
+      if (!needsBody) {
+        // If you don't need the body (names, extractors, soft 404 detection), HEAD request is fine. Otherwise, you MUST use a GET request to get response body
         requestType = 'HEAD';
       }
     }
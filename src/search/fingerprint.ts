@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Detect "soft 404s", where a site responds to a missing profile
+ * as if it exists, by comparing against a user name that is known to be unclaimed.
+ */
+
+import { Site } from 'sites';
+import { untilAborted } from './abort';
+
+// Hashing needs bitwise operators
+// tslint:disable:no-bitwise
+
+/**
+ * Summary of a response that is stable across user names on the same site.
+ */
+export interface ResponseFingerprint {
+  status: number;
+  /** URL after redirects, with the user name replaced by `{}`. */
+  finalUrl: string;
+  /** Length of the normalized body. See `normalizeBody()`. */
+  length: number;
+  /** SimHash of the normalized body as 8 hex digits. Similar bodies have similar hashes. */
+  hash: string;
+}
+
+/**
+ * Settings used by `FingerprintCache`.
+ */
+export interface FingerprintOptions {
+  /**
+   * If `true`, `findAccount` compares positive results against each site's baseline.
+   * Off by default: `status_code` sites then get a GET instead of a HEAD request, plus a baseline request per site.
+   */
+  enabled: boolean;
+  /** Fraction of hash bits (0-1) that must be the same for bodies to count as the same page. */
+  minSimilarity: number;
+  /** Largest difference in normalized length, as a fraction of the longer body, for bodies to count as the same page. */
+  lengthTolerance: number;
+}
+
+export const DEFAULT_FINGERPRINT_OPTIONS: FingerprintOptions = {
+  enabled: false,
+  minSimilarity: 0.9,
+  lengthTolerance: 0.1,
+};
+
+const HASH_BITS = 32;
+const SHINGLE_SIZE = 3;
+
+/**
+ * Lowercase `body` and strip the parts that differ between user names:
+ * the user name itself, numbers (IDs, timestamps, tokens), and whitespace.
+ */
+export const normalizeBody = (body: string, userName: string) => {
+  let text = body.toLowerCase();
+  if (userName.length > 0) {
+    text = text.split(userName.toLowerCase()).join(' ');
+  }
+  return text
+    .replace(/[0-9]+/g, '0')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * SimHash of `text` over shingles of `SHINGLE_SIZE` words.
+ *
+ * https://en.wikipedia.org/wiki/SimHash
+ */
+export const simHash = (text: string) => {
+  const words = text.split(/[^a-z0-9]+/).filter(word => word.length > 0);
+  const weights: number[] = new Array(HASH_BITS).fill(0);
+
+  const shingleCount = Math.max(1, words.length - SHINGLE_SIZE + 1);
+  for (let i = 0; i < shingleCount && words.length > 0; i++) {
+    const hash = fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let bit = 0; bit < HASH_BITS; bit++) {
+      weights[bit] += hash & (1 << bit) ? 1 : -1;
+    }
+  }
+
+  let result = 0;
+  for (let bit = 0; bit < HASH_BITS; bit++) {
+    if (weights[bit] > 0) {
+      result |= 1 << bit;
+    }
+  }
+  return toHex(result);
+};
+
+/**
+ * Fraction of bits (0-1) that are the same in two hashes from `simHash()`.
+ */
+export const hashSimilarity = (a: string, b: string) => {
+  let difference = parseInt(a, 16) ^ parseInt(b, 16);
+  let distance = 0;
+  while (difference !== 0) {
+    distance += difference & 1;
+    difference >>>= 1;
+  }
+  return 1 - distance / HASH_BITS;
+};
+
+/**
+ * Fingerprint a response to a request for `userName`.
+ */
+export const createFingerprint = (status: number, finalUrl: string, body: string, userName: string) => {
+  const normalized = normalizeBody(body, userName);
+  const fingerprint: ResponseFingerprint = {
+    status,
+    finalUrl: userName.length > 0 ? finalUrl.split(userName).join('{}') : finalUrl,
+    length: normalized.length,
+    hash: simHash(normalized),
+  };
+  return fingerprint;
+};
+
+/**
+ * Caches a baseline fingerprint for each site, made by probing its `username_unclaimed`.
+ *
+ * Each site is probed once until `reset()`. Failed probes are tried again on the next call.
+ */
+export class FingerprintCache {
+  public options: FingerprintOptions;
+  private baselines: { [siteName: string]: Promise<ResponseFingerprint | null> } = {};
+
+  constructor(options: FingerprintOptions = DEFAULT_FINGERPRINT_OPTIONS) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Return the baseline for `site`, calling `probe` to create it if there isn't one yet.
+   *
+   * `probe` is given `site.username_unclaimed`. Resolves to `null` if the site
+   * has no unclaimed user name or the probe failed. Failed probes aren't cached.
+   *
+   * Every caller shares the same probe, so `probe` shouldn't use any one caller's `AbortSignal`.
+   * Aborting `signal` only stops this caller from waiting for it.
+   */
+  public getBaseline(
+    site: Site,
+    probe: (userName: string) => Promise<ResponseFingerprint>,
+    signal?: AbortSignal | null,
+  ): Promise<ResponseFingerprint | null> {
+    if (!site.username_unclaimed) {
+      return Promise.resolve(null);
+    }
+
+    if (!(site.name in this.baselines)) {
+      this.baselines[site.name] = probe(site.username_unclaimed).catch(e => {
+        // Try again next time instead of turning detection off for the site
+        delete this.baselines[site.name];
+        console.warn(`Couldn't get a baseline for '${site.name}': ${e}`);
+        return null;
+      });
+    }
+
+    return untilAborted(this.baselines[site.name], signal);
+  }
+
+  /**
+   * `true` if `fingerprint` looks like the same page as `baseline`.
+   */
+  public matches(baseline: ResponseFingerprint, fingerprint: ResponseFingerprint) {
+    const longest = Math.max(baseline.length, fingerprint.length);
+    return (
+      baseline.status === fingerprint.status &&
+      baseline.finalUrl === fingerprint.finalUrl &&
+      Math.abs(baseline.length - fingerprint.length) <= longest * this.options.lengthTolerance &&
+      hashSimilarity(baseline.hash, fingerprint.hash) >= this.options.minSimilarity
+    );
+  }
+
+  /**
+   * Forget every baseline.
+   */
+  public reset() {
+    this.baselines = {};
+  }
+}
+
+/**
+ * Baselines shared by every search.
+ */
+export const fingerprintCache = new FingerprintCache();
+
+/**
+ * 32-bit FNV-1a hash of `text`.
+ */
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const toHex = (value: number) => ('00000000' + (value >>> 0).toString(16)).slice(-8);
@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Check that site definitions still work by searching for
+ * their known claimed and unclaimed user names.
+ */
+
+import { DbCache, DbResponse, getDb, IDbStorable, SiteHealthReportSchema, SiteHealthSchema } from 'db';
+import { Site, supportedSites } from 'sites';
+import { isAbortError, throwIfAborted } from './abort';
+import { AccountType, AutoSearchAccount, FailedAccount, InvalidAccount } from './accounts';
+import { DEFAULT_EXECUTOR_OPTIONS, ExecutorOptions, getProbeHost, SearchExecutor, SearchTask } from './executor';
+import { findAccount } from './findAccount';
+
+/** ID of the report document. There is only one. */
+export const SITE_HEALTH_KEY = 'siteHealth';
+
+/** Number of recent checks kept for each site. */
+const HISTORY_SIZE = 5;
+
+export enum SiteHealthStatus {
+  /** Every recent check passed. */
+  PASS = 'Pass',
+  /** Every recent check failed. */
+  FAIL = 'Fail',
+  /** Recent checks both passed and failed. */
+  FLAKY = 'Flaky',
+}
+
+/**
+ * Result of searching for one of a site's known user names.
+ */
+export interface SiteProbeCheck {
+  userName: string;
+  /** `true` if the result was what we expected. */
+  passed: boolean;
+  /** Type of account that the search returned. */
+  result: AccountType;
+  /** Why the search failed, if it did. */
+  reason: string | null;
+  /** Time (ms) until the response came back, or `null` if no request was sent. */
+  latency: number | null;
+}
+
+/**
+ * Latest health of a single site.
+ */
+export interface SiteHealth {
+  status: SiteHealthStatus;
+  checkedAt: Date;
+  /** Search for `username_claimed`. Passes if the account was found. */
+  claimed: SiteProbeCheck;
+  /** Search for `username_unclaimed`. Passes if the account wasn't found. */
+  unclaimed: SiteProbeCheck;
+  /** Whether each recent check passed, oldest first. */
+  history: boolean[];
+  /** Number of checks in a row that have failed. */
+  consecutiveFailures: number;
+}
+
+/**
+ * Persisted results of `validateSites()`, plus the setting that excludes failing sites from searches.
+ */
+export class SiteHealthReport implements IDbStorable {
+  public static cache = new DbCache<SiteHealthReport>();
+
+  /**
+   * Return the report from the database, or a new one if no sites have been checked yet.
+   */
+  public static async load() {
+    const cached = SiteHealthReport.cache.get(SITE_HEALTH_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const db = await getDb();
+    let data: SiteHealthReportSchema;
+    try {
+      data = await db.get<SiteHealthReportSchema>(SITE_HEALTH_KEY);
+    } catch (e) {
+      if (e.status !== 404) {
+        throw e;
+      }
+
+      const report = new SiteHealthReport();
+      SiteHealthReport.cache.add(report);
+      return report;
+    }
+
+    return SiteHealthReport.deserialize(data);
+  }
+
+  public static deserialize(data: SiteHealthReportSchema, existingInstance?: SiteHealthReport) {
+    const instance = existingInstance || new SiteHealthReport();
+
+    instance.rev = data._rev;
+    instance.checkedAt = data.checkedAt ? new Date(data.checkedAt) : null;
+    instance.excludeFailing = data.excludeFailing;
+    instance.failureThreshold = data.failureThreshold;
+    instance.sites = {};
+    for (const siteName of Object.keys(data.sites)) {
+      const site = data.sites[siteName];
+      instance.sites[siteName] = { ...site, checkedAt: new Date(site.checkedAt), history: [...site.history] };
+    }
+
+    SiteHealthReport.cache.add(instance);
+    return instance;
+  }
+
+  public readonly id = SITE_HEALTH_KEY;
+  public rev: string = '';
+
+  /** When `validateSites()` last finished, or `null` if it has never run. */
+  public checkedAt: Date | null = null;
+  /** Health of each site that has been checked, keyed by site name. */
+  public sites: { [siteName: string]: SiteHealth } = {};
+
+  /** If `true`, searches skip sites that are excluded by `isExcluded()`. */
+  public excludeFailing: boolean = false;
+  /** Number of failed checks in a row before a site is excluded. */
+  public failureThreshold: number = 3;
+
+  /** Names of sites whose recent checks have all failed. */
+  public get failing() {
+    return Object.keys(this.sites).filter(siteName => this.sites[siteName].status === SiteHealthStatus.FAIL);
+  }
+
+  /** Names of sites whose recent checks have both passed and failed. */
+  public get flaky() {
+    return Object.keys(this.sites).filter(siteName => this.sites[siteName].status === SiteHealthStatus.FLAKY);
+  }
+
+  /**
+   * `true` if searches should skip `siteName`.
+   *
+   * This only happens if `excludeFailing` is on and the site has failed
+   * at least `failureThreshold` checks in a row.
+   */
+  public isExcluded(siteName: string) {
+    const health = this.sites[siteName];
+    return this.excludeFailing && health !== undefined && health.consecutiveFailures >= this.failureThreshold;
+  }
+
+  /**
+   * Add the result of checking `site` and update its status.
+   */
+  public record(site: Site, claimed: SiteProbeCheck, unclaimed: SiteProbeCheck, checkedAt: Date = new Date()) {
+    const previous = this.sites[site.name];
+    const passed = claimed.passed && unclaimed.passed;
+
+    const history = [...(previous ? previous.history : []), passed].slice(-HISTORY_SIZE);
+    let status = SiteHealthStatus.FLAKY;
+    if (history.every(entry => entry)) {
+      status = SiteHealthStatus.PASS;
+    } else if (history.every(entry => !entry)) {
+      status = SiteHealthStatus.FAIL;
+    }
+
+    const health: SiteHealth = {
+      status,
+      checkedAt,
+      claimed,
+      unclaimed,
+      history,
+      consecutiveFailures: passed ? 0 : (previous ? previous.consecutiveFailures : 0) + 1,
+    };
+    this.sites[site.name] = health;
+    return health;
+  }
+
+  public async save(): Promise<DbResponse> {
+    console.debug(`Saving site health report...`);
+
+    const db = await getDb();
+    const result = await db.put(this.serialize());
+
+    if (result.ok) {
+      this.rev = result.rev;
+      SiteHealthReport.cache.add(this);
+      return result;
+    }
+
+    console.error(result);
+    throw new Error('Failed to save site health report!');
+  }
+
+  public async remove(): Promise<void> {
+    const db = await getDb();
+    try {
+      await db.remove(this.serialize());
+    } catch (e) {
+      console.warn(`Could not remove ${this.id}: ${e}`);
+      return;
+    }
+
+    DbCache.remove(this.id);
+  }
+
+  public serialize(): SiteHealthReportSchema {
+    const sites: { [siteName: string]: SiteHealthSchema } = {};
+    for (const siteName of Object.keys(this.sites)) {
+      const site = this.sites[siteName];
+      sites[siteName] = { ...site, checkedAt: site.checkedAt.toJSON() };
+    }
+
+    return {
+      _id: this.id,
+      _rev: this.rev,
+      checkedAt: this.checkedAt ? this.checkedAt.toJSON() : null,
+      excludeFailing: this.excludeFailing,
+      failureThreshold: this.failureThreshold,
+      sites,
+    };
+  }
+}
+
+/**
+ * Options for `validateSites()`.
+ */
+export interface ValidateSitesOptions {
+  /** Sites to check. Defaults to every supported site. */
+  sites?: Site[];
+  /** Concurrency limits. Each site is probed twice. */
+  executorOptions?: ExecutorOptions;
+  /** Stops the check. Sites that finished are still saved to the report. */
+  signal?: AbortSignal | null;
+}
+
+/**
+ * Search each site for its `username_claimed` and `username_unclaimed` and
+ * save the results to the `SiteHealthReport`.
+ *
+ * A probe that throws counts as a failed check, so it doesn't stop the other sites from being saved.
+ *
+ * Requests go through the default transport (see `setDefaultTransport()`).
+ *
+ * Rejects with an `AbortError` if `signal` is aborted, after saving the sites that finished.
+ */
+export const validateSites = async (options: ValidateSitesOptions = {}) => {
+  const sites = options.sites || Object.values(supportedSites);
+  const signal = options.signal;
+  const report = await SiteHealthReport.load();
+
+  const tasks: SearchTask[] = [];
+  sites.forEach((site, siteIndex) => {
+    [site.username_claimed, site.username_unclaimed].forEach((userName, userNameIndex) => {
+      tasks.push({ siteIndex, userNameIndex, site, userName, host: getProbeHost(site, userName) });
+    });
+  });
+
+  const checks: { [siteName: string]: SiteProbeCheck[] } = {};
+  const executor = new SearchExecutor(
+    tasks,
+    async task => {
+      let check: SiteProbeCheck;
+      try {
+        const account = await findAccount(task.site, task.userName, undefined, signal);
+        check = toCheck(account, task.userNameIndex === 0);
+      } catch (e) {
+        if (isAbortError(e)) {
+          throw e;
+        }
+        check = { userName: task.userName, passed: false, result: AccountType.FAILED, reason: `${e}`, latency: null };
+      }
+
+      checks[task.site.name] = checks[task.site.name] || [];
+      checks[task.site.name][task.userNameIndex] = check;
+    },
+    () => !signal?.aborted,
+    options.executorOptions || DEFAULT_EXECUTOR_OPTIONS,
+  );
+
+  await executor.run();
+
+  const checkedAt = new Date();
+  for (const site of sites) {
+    const [claimed, unclaimed] = checks[site.name] || [];
+    if (claimed && unclaimed) {
+      report.record(site, claimed, unclaimed, checkedAt);
+    }
+  }
+
+  report.checkedAt = checkedAt;
+  await report.save();
+
+  throwIfAborted(signal);
+  return report;
+};
+
+const toCheck = (account: AutoSearchAccount, shouldExist: boolean): SiteProbeCheck => {
+  const expected = shouldExist ? AccountType.REGISTERED : AccountType.UNREGISTERED;
+  return {
+    userName: account.userName,
+    passed: account.type === expected,
+    result: account.type,
+    reason: account instanceof FailedAccount || account instanceof InvalidAccount ? account.reason : null,
+    latency: account.evidence ? account.evidence.responseTime : null,
+  };
+};
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Look up every search result recorded for an account,
+ * across all searches and search definitions.
+ */
+
+import { getDb, PouchDbId } from 'db';
+import { AccountSchema } from 'db/schema';
+import { AccountType, AutoSearchAccount, ThirdPartyAccount } from './accounts';
+import { AccountHistoryIndex, parseSearchResultId } from './historyIndex';
+
+/**
+ * Load every search result recorded for the account with ID `accountId`, across all searches, oldest first.
+ *
+ * `accountId` is the ID from `toAccountId()`, without a search prefix.
+ * Uses `AccountHistoryIndex.shared()` unless given another index.
+ */
+export const getAccountHistory = async (accountId: PouchDbId, index?: AccountHistoryIndex) => {
+  const refs = (index || (await AccountHistoryIndex.shared())).get(accountId);
+  if (refs.length === 0) {
+    return [];
+  }
+
+  const db = await getDb();
+  const response = await db.allDocs<AccountSchema>({ keys: refs.map(ref => ref.id), include_docs: true });
+
+  const results: AutoSearchAccount[] = [];
+  for (const row of response.rows) {
+    // Rows for documents that have since been removed have no `doc`
+    const doc = 'doc' in row ? row.doc : undefined;
+    if (!doc) {
+      continue;
+    }
+
+    let result = ThirdPartyAccount.resultCache.get(doc._id);
+    if (!result || result.rev !== doc._rev) {
+      try {
+        result = await ThirdPartyAccount.deserialize(doc);
+      } catch (e) {
+        console.warn(`Skipping result '${doc._id}'.\nFailed to deserialize:\n${e}`);
+        continue;
+      }
+    }
+
+    if (result instanceof AutoSearchAccount) {
+      results.push(result);
+    }
+  }
+
+  return results.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+/**
+ * Point in an account's history where its search result changed type.
+ */
+export interface AccountStatusChange {
+  /** When the result with the new type was recorded. */
+  at: Date;
+  type: AccountType;
+  /** Type of the result before this one, or `null` for the first result. */
+  previousType: AccountType | null;
+  /** ID of the result with the new type. */
+  resultId: PouchDbId;
+  searchId: PouchDbId;
+}
+
+/**
+ * Reduce `history` (from `getAccountHistory()`) to the results where the type changed.
+ *
+ * The first result always counts as a change.
+ */
+export const toStatusTimeline = (history: AutoSearchAccount[]) => {
+  const timeline: AccountStatusChange[] = [];
+
+  let previousType: AccountType | null = null;
+  for (const result of history) {
+    if (result.type === previousType) {
+      continue;
+    }
+
+    const ref = parseSearchResultId(result.id);
+    timeline.push({
+      at: result.createdAt,
+      type: result.type,
+      previousType,
+      resultId: result.id,
+      searchId: ref ? ref.searchId : '',
+    });
+    previousType = result.type;
+  }
+
+  return timeline;
+};
+
+/**
+ * Return each time the search result for the account with ID `accountId` changed type, oldest first.
+ *
+ * See `getAccountHistory()`.
+ */
+export const getAccountTimeline = async (accountId: PouchDbId, index?: AccountHistoryIndex) => {
+  return toStatusTimeline(await getAccountHistory(accountId, index));
+};
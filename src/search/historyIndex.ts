@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Find the search results stored for each account from their document IDs.
+ */
+
+import { getDb, PouchDbId, toId, UTF_MAX } from 'db';
+
+/**
+ * Where a search result is stored, taken apart from its ID.
+ */
+export interface SearchResultRef {
+  /** ID of the result document. */
+  id: PouchDbId;
+  /** ID of the account that this is a result for. See `toAccountId()`. */
+  accountId: PouchDbId;
+  searchId: PouchDbId;
+  definitionId: PouchDbId;
+}
+
+/**
+ * Split a search result ID into its search, definition, and account IDs.
+ *
+ * Returns `null` if `id` isn't a search result.
+ *
+ * ```
+ * searchDef/<date>/<random>/search/<date>/searchResult/account/<hash>
+ * \_______ definitionId ___/
+ * \_________________ searchId ______/              \___ accountId ___/
+ * ```
+ */
+export const parseSearchResultId = (id: PouchDbId): SearchResultRef | null => {
+  // Parts of the ID between the definition, search, and account IDs
+  const resultSeparator = toId(['', 'searchResult', '']);
+  const searchSeparator = toId(['', 'search', '']);
+
+  const index = id.lastIndexOf(resultSeparator);
+  if (index === -1) {
+    return null;
+  }
+
+  const searchId = id.slice(0, index);
+  const searchIndex = searchId.lastIndexOf(searchSeparator);
+  return {
+    id,
+    accountId: id.slice(index + resultSeparator.length),
+    searchId,
+    definitionId: searchIndex === -1 ? searchId : searchId.slice(0, searchIndex),
+  };
+};
+
+/**
+ * Map of account ID to the IDs of every search result stored for it.
+ *
+ * Built from document IDs alone, so it's cheap to build but doesn't load any results.
+ * `shared()` is kept up to date as accounts are saved and removed, including by syncing or other tabs.
+ */
+export class AccountHistoryIndex {
+  private static sharedIndex: Promise<AccountHistoryIndex> | null = null;
+  private static sharedChanges: PouchDB.Core.Changes<{}> | null = null;
+
+  /**
+   * Scan the database for search results and index them.
+   */
+  public static async build() {
+    const index = new AccountHistoryIndex();
+    await index.scan();
+    return index;
+  }
+
+  /**
+   * Index shared by every lookup. Built on first use, then follows the database's change feed.
+   */
+  public static shared() {
+    if (AccountHistoryIndex.sharedIndex === null) {
+      const index = new AccountHistoryIndex();
+      const shared: Promise<AccountHistoryIndex> = AccountHistoryIndex.follow(index)
+        .then(({ changes }) => {
+          if (AccountHistoryIndex.sharedIndex === shared) {
+            AccountHistoryIndex.sharedChanges = changes;
+          } else {
+            // Reset while we were starting, so nothing will stop this feed later
+            changes.cancel();
+          }
+          return index.scan();
+        })
+        .then(() => index)
+        .catch(e => {
+          if (AccountHistoryIndex.sharedIndex === shared) {
+            AccountHistoryIndex.reset();
+          }
+          throw e;
+        });
+      AccountHistoryIndex.sharedIndex = shared;
+    }
+    return AccountHistoryIndex.sharedIndex;
+  }
+
+  /**
+   * Forget the shared index. The next lookup scans the database again.
+   */
+  public static reset() {
+    AccountHistoryIndex.sharedChanges?.cancel();
+    AccountHistoryIndex.sharedChanges = null;
+    AccountHistoryIndex.sharedIndex = null;
+  }
+
+  /**
+   * Add or remove `id` in the shared index, if it has been built. Called by `ThirdPartyAccount`.
+   */
+  public static update(id: PouchDbId, removed: boolean) {
+    // Waits for a build in progress, which may have missed `id`
+    AccountHistoryIndex.sharedIndex?.then(index => (removed ? index.remove(id) : index.add(id))).catch(() => null);
+  }
+
+  /**
+   * Keep `index` up to date with documents that are saved or removed from now on.
+   *
+   * Started before the scan so that nothing saved during it is missed.
+   * The feed is wrapped because it's also a promise, which only settles when the feed stops.
+   */
+  private static async follow(index: AccountHistoryIndex): Promise<{ changes: PouchDB.Core.Changes<{}> }> {
+    const db = await getDb();
+    const changes: PouchDB.Core.Changes<{}> = db
+      .changes({ since: 'now', live: true })
+      .on('change', change => (change.deleted ? index.remove(change.id) : index.add(change.id)))
+      .on('error', e => {
+        console.warn(`Account history index stopped following changes:\n${e}`);
+        // Scan again on the next lookup rather than miss changes
+        if (AccountHistoryIndex.sharedChanges === changes) {
+          AccountHistoryIndex.reset();
+        }
+      });
+    return { changes };
+  }
+
+  private results: { [accountId: string]: SearchResultRef[] } = {};
+
+  /** IDs of every account that has at least one result. */
+  public get accountIds() {
+    return Object.keys(this.results).filter(accountId => this.results[accountId].length !== 0);
+  }
+
+  /**
+   * Add every search result in the database.
+   */
+  private async scan() {
+    const db = await getDb();
+    const response = await db.allDocs({
+      startkey: toId(['searchDef']),
+      endkey: toId(['searchDef', UTF_MAX]),
+    });
+
+    for (const row of response.rows) {
+      this.add(row.id);
+    }
+  }
+
+  /**
+   * Add the result with ID `resultId`. Ignores IDs that aren't search results.
+   */
+  public add(resultId: PouchDbId) {
+    const ref = parseSearchResultId(resultId);
+    if (ref === null) {
+      return;
+    }
+
+    this.results[ref.accountId] = this.results[ref.accountId] || [];
+    if (!this.results[ref.accountId].some(existing => existing.id === resultId)) {
+      this.results[ref.accountId].push(ref);
+    }
+  }
+
+  /**
+   * Remove the result with ID `resultId`, if it's there.
+   */
+  public remove(resultId: PouchDbId) {
+    const ref = parseSearchResultId(resultId);
+    if (ref === null || !(ref.accountId in this.results)) {
+      return;
+    }
+
+    this.results[ref.accountId] = this.results[ref.accountId].filter(existing => existing.id !== resultId);
+  }
+
+  /**
+   * Return where each result for `accountId` is stored. Empty if there are none.
+   */
+  public get(accountId: PouchDbId): SearchResultRef[] {
+    return [...(this.results[accountId] || [])];
+  }
+}
@@ -1,3 +1,21 @@
 export * from './accounts';
 export * from './search';
+export * from './executor';
 export * from './findAccount';
+export * from './rateLimit';
+export * from './transport';
+export * from './extension';
+export * from './variants';
+export * from './schedule';
+export * from './diff';
+export * from './abort';
+export * from './events';
+export * from './confidence';
+export * from './metadata';
+export * from './extractors';
+export * from './fingerprint';
+export * from './health';
+export * from './plan';
+export * from './history';
+export * from './historyIndex';
+export * from './ordering';
@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Pull profile details out of the HTML of a probed page.
+ */
+
+/**
+ * Profile details found on a site's profile page.
+ *
+ * Each field is `null` if the page didn't have it.
+ */
+export interface ProfileMetadata {
+  displayName: string | null;
+  /** Absolute URL of the profile picture. */
+  avatarUrl: string | null;
+  bio: string | null;
+  location: string | null;
+  /** Absolute URL of a website that the profile links to. */
+  website: string | null;
+}
+
+/** Bios longer than this are cut off. */
+const MAX_BIO_LENGTH = 500;
+
+/**
+ * Extract profile details from `html`.
+ *
+ * Sources are checked in order of how structured they are: JSON-LD, OpenGraph,
+ * Twitter cards, then plain `<title>`/`<meta>` tags. The first value found for
+ * each field wins. Relative URLs are resolved against `pageUrl`.
+ *
+ * Returns `null` if nothing was found.
+ */
+export const extractProfileMetadata = (html: string, pageUrl: string): ProfileMetadata | null => {
+  const meta = findMetaTags(html);
+  const person = findJsonLdPerson(html);
+
+  const metadata: ProfileMetadata = {
+    displayName: firstOf(person && asText(person.name), meta['og:title'], meta['twitter:title'], findTitle(html)),
+    avatarUrl: toAbsoluteUrl(
+      firstOf(person && asUrl(person.image), meta['og:image'], meta['twitter:image'], meta['twitter:image:src']),
+      pageUrl,
+    ),
+    bio: truncate(
+      firstOf(
+        person && asText(person.description),
+        meta['og:description'],
+        meta['twitter:description'],
+        meta.description,
+      ),
+    ),
+    location: firstOf(
+      person && asLocation(person.homeLocation),
+      person && asLocation(person.address),
+      meta['og:locality'],
+      meta['profile:location'],
+    ),
+    website: toAbsoluteUrl(firstOf(person && asWebsite(person, pageUrl), findRelMe(html)), pageUrl),
+  };
+
+  if (Object.values(metadata).every(value => value === null)) {
+    return null;
+  }
+  return metadata;
+};
+
+////  HTML  ////
+
+const META_TAG_REGEXP = /<meta\s[^>]*>/gi;
+const ATTRIBUTE_REGEXP = /([a-z:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+/**
+ * Map of `<meta>` `property`/`name` to `content`, lowercased. The first tag for a key wins.
+ */
+const findMetaTags = (html: string) => {
+  const tags: { [key: string]: string } = {};
+
+  for (const tag of html.match(META_TAG_REGEXP) || []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    const content = decodeEntities(attributes.content || '').trim();
+
+    if (key && content && !(key in tags)) {
+      tags[key] = content;
+    }
+  }
+
+  return tags;
+};
+
+const parseAttributes = (tag: string) => {
+  const attributes: { [name: string]: string } = {};
+
+  const regexp = new RegExp(ATTRIBUTE_REGEXP);
+  for (let match = regexp.exec(tag); match !== null; match = regexp.exec(tag)) {
+    const value = match[3] ?? match[4] ?? match[5];
+    attributes[match[1].toLowerCase()] = value;
+  }
+
+  return attributes;
+};
+
+const findTitle = (html: string) => {
+  const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  return match ? decodeEntities(match[1]).replace(/\s+/g, ' ').trim() || null : null;
+};
+
+const findRelMe = (html: string) => {
+  for (const tag of html.match(/<(?:a|link)\s[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag);
+    if (attributes.href && (attributes.rel || '').split(/\s+/).includes('me')) {
+      return decodeEntities(attributes.href);
+    }
+  }
+  return null;
+};
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string) => {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCharCode(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+};
+
+////  JSON-LD  ////
+
+const JSON_LD_REGEXP = /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const PERSON_TYPES = ['Person', 'Organization'];
+
+/**
+ * Return the first JSON-LD `Person` (or `Organization`) on the page.
+ *
+ * Looks inside `ProfilePage.mainEntity` and `@graph` as well.
+ */
+const findJsonLdPerson = (html: string): any => {
+  const regexp = new RegExp(JSON_LD_REGEXP);
+  for (let match = regexp.exec(html); match !== null; match = regexp.exec(html)) {
+    let data;
+    try {
+      data = JSON.parse(match[1]);
+    } catch (e) {
+      // Sites get this wrong all the time
+      continue;
+    }
+
+    const person = findPerson(data);
+    if (person) {
+      return person;
+    }
+  }
+
+  return null;
+};
+
+const findPerson = (data: any): any => {
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const person = findPerson(item);
+      if (person) {
+        return person;
+      }
+    }
+    return null;
+  }
+
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const types = Array.isArray(data['@type']) ? data['@type'] : [data['@type']];
+  if (types.some((type: any) => PERSON_TYPES.includes(type))) {
+    return data;
+  }
+
+  return findPerson(data.mainEntity) || findPerson(data['@graph']);
+};
+
+const asText = (value: any): string | null => {
+  if (typeof value === 'string') {
+    return decodeEntities(value).trim() || null;
+  } else if (Array.isArray(value)) {
+    return asText(value[0]);
+  }
+  return null;
+};
+
+const asUrl = (value: any): string | null => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return asText(value.url || value.contentUrl);
+  } else if (Array.isArray(value)) {
+    return asUrl(value[0]);
+  }
+  return asText(value);
+};
+
+const asLocation = (value: any): string | null => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    if (value.address) {
+      return asLocation(value.address);
+    }
+
+    const parts = [value.name, value.addressLocality, value.addressRegion, value.addressCountry]
+      .map(part => (part && typeof part === 'object' ? part.name : part))
+      .filter(part => typeof part === 'string' && part.trim().length > 0);
+    return parts.length > 0 ? decodeEntities(parts.join(', ')) : null;
+  }
+  return asText(value);
+};
+
+/**
+ * `url` if it points somewhere other than the profile itself, otherwise the first `sameAs`.
+ */
+const asWebsite = (person: any, pageUrl: string): string | null => {
+  const url = asText(person.url);
+  if (url && toAbsoluteUrl(url, pageUrl) !== toAbsoluteUrl(pageUrl, pageUrl)) {
+    return url;
+  }
+  return asText(person.sameAs);
+};
+
+////  Helpers  ////
+
+const firstOf = (...values: (string | null | undefined)[]) => {
+  for (const value of values) {
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+};
+
+const toAbsoluteUrl = (url: string | null, base: string) => {
+  if (url === null) {
+    return null;
+  }
+
+  try {
+    return new URL(url, base).href;
+  } catch (e) {
+    return null;
+  }
+};
+
+const truncate = (text: string | null) => {
+  if (text === null || text.length <= MAX_BIO_LENGTH) {
+    return text;
+  }
+  return `${text.slice(0, MAX_BIO_LENGTH - 1).trimRight()}…`;
+};
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Pluggable scoring used to decide which sites a search probes first.
+ */
+
+import { Site } from 'sites';
+import { AccountType, ThirdPartyAccount, toAccountId } from './accounts';
+import { SiteHealthReport, SiteHealthStatus } from './health';
+import { Search } from './search';
+
+/**
+ * Past results on a site for the user names in a search.
+ */
+export interface SiteHitRate {
+  /** Results where the account existed. */
+  hits: number;
+  /** Results where the site gave an answer, found or not. */
+  total: number;
+}
+
+/**
+ * Information available to prioritizers.
+ */
+export interface SitePriorityContext {
+  search: Search;
+  /** Keyed by site name. Sites without any past results are missing. */
+  hitRates: { [siteName: string]: SiteHitRate };
+  health: SiteHealthReport;
+}
+
+/**
+ * Single signal used to order sites.
+ *
+ * `score()` returns `null` if the signal has nothing to say about the site.
+ */
+export interface SitePrioritizer {
+  /** Unique name. Used to remove the prioritizer. */
+  readonly name: string;
+  /** Multiplier applied to `score`. */
+  weight: number;
+  score: (site: Site, context: SitePriorityContext) => number | null;
+}
+
+////  Prioritizers  ////
+
+/** Up to 3 points for the fraction of past searches for these user names that found an account on the site. */
+export const hitRatePrioritizer: SitePrioritizer = {
+  name: 'hitRate',
+  weight: 3,
+  score: (site, context) => {
+    const rate = context.hitRates[site.name];
+    if (!rate || rate.total === 0) {
+      return null;
+    }
+    return rate.hits / rate.total;
+  },
+};
+
+/** A point for sites that pass health checks, minus a point for sites that fail them or are omitted. */
+export const reliabilityPrioritizer: SitePrioritizer = {
+  name: 'reliability',
+  weight: 1,
+  score: (site, context) => {
+    const health = context.health.sites[site.name];
+    if (site.omit || (health && health.status === SiteHealthStatus.FAIL)) {
+      return -1;
+    } else if (health && health.status === SiteHealthStatus.PASS) {
+      return 1;
+    }
+    return null;
+  },
+};
+
+/**
+ * Up to 2 points for sites with a tag in `definition.tagPriority`. Earlier tags are worth more.
+ */
+export const tagPrioritizer: SitePrioritizer = {
+  name: 'tag',
+  weight: 2,
+  score: (site, context) => {
+    const tagPriority = context.search.definition.tagPriority;
+    const index = tagPriority.findIndex(tag => site.tags.includes(tag));
+    if (index === -1) {
+      return null;
+    }
+    return (tagPriority.length - index) / tagPriority.length;
+  },
+};
+
+export const DEFAULT_SITE_PRIORITIZERS: SitePrioritizer[] = [
+  hitRatePrioritizer,
+  reliabilityPrioritizer,
+  tagPrioritizer,
+];
+
+////  Engine  ////
+
+/**
+ * Orders sites by adding up the weighted score from each prioritizer.
+ */
+export class SitePriorityEngine {
+  public prioritizers: SitePrioritizer[];
+
+  constructor(prioritizers: SitePrioritizer[] = DEFAULT_SITE_PRIORITIZERS) {
+    this.prioritizers = [...prioritizers];
+  }
+
+  /**
+   * Add `prioritizer`, replacing any prioritizer with the same name.
+   */
+  public add(prioritizer: SitePrioritizer) {
+    this.remove(prioritizer.name);
+    this.prioritizers.push(prioritizer);
+  }
+
+  /**
+   * Remove the prioritizer named `name`. Returns `true` if it was found.
+   */
+  public remove(name: string) {
+    const index = this.prioritizers.findIndex(prioritizer => prioritizer.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.prioritizers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Sum of the weighted scores for `site`. Higher goes first.
+   */
+  public score(site: Site, context: SitePriorityContext) {
+    let total = 0;
+    for (const prioritizer of this.prioritizers) {
+      let score;
+      try {
+        score = prioritizer.score(site, context);
+      } catch (e) {
+        console.warn(`Site prioritizer '${prioritizer.name}' failed on '${site.name}': ${e}`);
+        continue;
+      }
+
+      if (score !== null) {
+        total += prioritizer.weight * score;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Return `sites` in the order to search them.
+   *
+   * Sites in `definition.pinnedSites` come first, in the order they were pinned.
+   * The rest are sorted by `score()`. Ties keep their original order.
+   */
+  public order(sites: Site[], context: SitePriorityContext) {
+    const pinnedSites = context.search.definition.pinnedSites;
+    const pinned = pinnedSites
+      .map(siteName => sites.find(site => site.name === siteName))
+      .filter((site): site is Site => site !== undefined);
+
+    const scored = sites
+      .filter(site => !pinned.includes(site))
+      .map((site, index) => ({ site, index, score: this.score(site, context) }));
+    scored.sort((a, b) => b.score - a.score || a.index - b.index);
+
+    return [...pinned, ...scored.map(({ site }) => site)];
+  }
+}
+
+/**
+ * Engine used when a search picks its site order.
+ *
+ * Add or remove prioritizers here to change the order globally.
+ */
+export const sitePriorityEngine = new SitePriorityEngine();
+
+/**
+ * Count past results on each site for the user names in `search`.
+ *
+ * Uses the other searches in `definition.history` plus any claimed or rejected accounts.
+ * Accounts need to be loaded with `ThirdPartyAccount.loadAll()` to count.
+ */
+export const getSiteHitRates = (search: Search) => {
+  const hitRates: { [siteName: string]: SiteHitRate } = {};
+  const add = (siteName: string, hit: boolean) => {
+    hitRates[siteName] = hitRates[siteName] || { hits: 0, total: 0 };
+    hitRates[siteName].hits += hit ? 1 : 0;
+    hitRates[siteName].total += 1;
+  };
+
+  for (const past of search.definition.history) {
+    if (past === search) {
+      continue;
+    }
+
+    for (const result of past.results) {
+      if (result.type === AccountType.REGISTERED || result.type === AccountType.UNREGISTERED) {
+        add(result.site.name, result.type === AccountType.REGISTERED);
+      }
+    }
+  }
+
+  const identifiers = search.definition.identifiers;
+  for (const site of search.definition.includedSites) {
+    for (const { userName } of identifiers) {
+      const account = ThirdPartyAccount.accountCache.get(toAccountId(site, userName));
+      if (account && (account.type === AccountType.CLAIMED || account.type === AccountType.REJECTED)) {
+        add(site.name, account.type === AccountType.CLAIMED);
+      }
+    }
+  }
+
+  return hitRates;
+};
+
+/**
+ * Return `definition.includedSites` in the order that `search` should probe them.
+ *
+ * If `definition.prioritizeSites` is off, this is the order of `includedSites`.
+ */
+export const orderSites = async (search: Search) => {
+  const sites = search.definition.includedSites;
+  if (!search.definition.prioritizeSites) {
+    return [...sites];
+  }
+
+  const context: SitePriorityContext = {
+    search,
+    hitRates: getSiteHitRates(search),
+    health: await SiteHealthReport.load(),
+  };
+  return sitePriorityEngine.order(sites, context);
+};
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Work out what a `Search` will do without sending any requests.
+ */
+
+import { Site } from 'sites';
+import { AutoSearchAccount, ThirdPartyAccount, toAccountId } from './accounts';
+import { ExecutorOptions, getProbeHost } from './executor';
+import { describeProbe, getEmailProbeSite, validateEmail, validateUserName } from './findAccount';
+import { SiteHealthReport } from './health';
+import { orderSites } from './ordering';
+import { Search } from './search';
+
+/** Time (ms) assumed for a request to a site that we have no history for. */
+export const DEFAULT_PROBE_LATENCY = 1000;
+
+export enum SearchPlanSkipReason {
+  /** The site is marked `omit` and has no results yet. */
+  OMITTED = 'Omitted',
+  /** The site keeps failing health checks. See `SiteHealthReport.excludeFailing`. */
+  EXCLUDED = 'Excluded',
+  /** The user name or email can never exist on the site, so no request is sent. */
+  INVALID = 'Invalid',
+  /** There is already a result for the user name on the site. */
+  EXISTING_RESULT = 'Existing result',
+}
+
+/**
+ * Single request that a search will send.
+ */
+export interface SearchPlanProbe {
+  site: Site;
+  /** User name to search for. Email addresses are also used as the user name. */
+  userName: string;
+  /** The email address if this is an email search, otherwise `null`. */
+  email: string | null;
+  personaId: string;
+  /** 'GET' or 'HEAD'. */
+  method: string;
+  url: string;
+  host: string;
+  /** Expected time (ms) for the request, from past results on the site or `DEFAULT_PROBE_LATENCY`. */
+  latency: number;
+}
+
+/**
+ * Site/user name pair that a search won't send a request for.
+ */
+export interface SearchPlanSkip {
+  site: Site;
+  userName: string;
+  reason: SearchPlanSkipReason;
+  /** Why the user name is invalid. `null` for other reasons. */
+  detail: string | null;
+}
+
+/**
+ * Everything a search will do, from `Search.plan()`.
+ */
+export interface SearchPlan {
+  probes: SearchPlanProbe[];
+  skips: SearchPlanSkip[];
+  /**
+   * Estimated time (ms) to send every probe with the search's `executorOptions`.
+   *
+   * Doesn't include rate limiting, retries, or baseline requests for soft 404 detection.
+   */
+  estimatedDuration: number;
+}
+
+/**
+ * Return the probes and skips that `search` would have if it started now, in the order it would probe them.
+ *
+ * This follows the same rules as a running search, but doesn't send any requests.
+ * It reads the database for existing results, past latencies, and site health.
+ */
+export const planSearch = async (search: Search): Promise<SearchPlan> => {
+  const definition = search.definition;
+  const identifiers = definition.identifiers;
+
+  // Results that would be stored before the search starts
+  // See `Search.doSearch()`
+  const existing: { [siteName: string]: { [userName: string]: boolean } } = {};
+  for (const siteName of Object.keys(search.resultsMap)) {
+    existing[siteName] = {};
+    for (const userName of Object.keys(search.resultsMap[siteName])) {
+      existing[siteName][userName] = true;
+    }
+  }
+
+  await ThirdPartyAccount.loadAll();
+  const isResuming = search.lastSiteIndex !== 0 || search.lastUserNameIndex !== 0;
+  if (!isResuming) {
+    for (const site of definition.includedSites) {
+      for (const { userName } of identifiers) {
+        if (ThirdPartyAccount.accountCache.get(toAccountId(site, userName)) instanceof AutoSearchAccount) {
+          existing[site.name] = existing[site.name] || {};
+          existing[site.name][userName] = true;
+        }
+      }
+    }
+  }
+
+  const health = await SiteHealthReport.load();
+  const latencies = getSiteLatencies(search, health);
+
+  // A new run picks a new site order. See `Search.siteOrder`
+  const sites = isResuming ? search.sites : await orderSites(search);
+
+  const probes: SearchPlanProbe[] = [];
+  const skips: SearchPlanSkip[] = [];
+  for (const site of sites) {
+    for (const identifier of identifiers) {
+      const { userName, email, personaId } = identifier;
+
+      // Only some sites can be searched by email
+      if (email !== null && !site.emailProbe) {
+        continue;
+      }
+
+      const skip = (reason: SearchPlanSkipReason, detail: string | null = null) => {
+        skips.push({ site, userName, reason, detail });
+      };
+
+      if (health.isExcluded(site.name)) {
+        skip(SearchPlanSkipReason.EXCLUDED);
+      } else if (existing[site.name] && existing[site.name][userName]) {
+        skip(SearchPlanSkipReason.EXISTING_RESULT);
+      } else if (site.omit && !(site.name in existing)) {
+        skip(SearchPlanSkipReason.OMITTED);
+      } else {
+        const invalidReason = email === null ? validateUserName(site, userName) : validateEmail(site, email);
+        if (invalidReason !== null) {
+          skip(SearchPlanSkipReason.INVALID, invalidReason);
+          continue;
+        }
+
+        const { method, url } = describeProbe(email === null ? site : getEmailProbeSite(site, email), userName, search);
+        probes.push({
+          site,
+          userName,
+          email,
+          personaId,
+          method,
+          url,
+          host: getProbeHost(site, userName, email),
+          latency: latencies[site.name] ?? DEFAULT_PROBE_LATENCY,
+        });
+      }
+    }
+  }
+
+  return { probes, skips, estimatedDuration: estimateDuration(probes, search.executorOptions) };
+};
+
+/**
+ * Estimate how long `probes` take to run with the given concurrency limits.
+ *
+ * The total is limited by either the global concurrency or the busiest host, whichever is slower.
+ */
+export const estimateDuration = (probes: SearchPlanProbe[], options: ExecutorOptions) => {
+  let total = 0;
+  const byHost: { [host: string]: number } = {};
+  for (const probe of probes) {
+    total += probe.latency;
+    byHost[probe.host] = (byHost[probe.host] || 0) + probe.latency;
+  }
+
+  const busiestHost = Math.max(0, ...Object.values(byHost));
+  return Math.round(
+    Math.max(total / Math.max(1, options.concurrency), busiestHost / Math.max(1, options.perHostConcurrency)),
+  );
+};
+
+/**
+ * Average response time (ms) of each site, keyed by site name.
+ *
+ * Comes from the `evidence` of loaded results and accounts, and from site health checks.
+ */
+const getSiteLatencies = (search: Search, health: SiteHealthReport) => {
+  const samples: { [siteName: string]: number[] } = {};
+  const add = (siteName: string, latency: number | null) => {
+    if (latency !== null) {
+      samples[siteName] = samples[siteName] || [];
+      samples[siteName].push(latency);
+    }
+  };
+
+  const accounts = [
+    ...search.results,
+    ...Object.values(ThirdPartyAccount.resultCache.items),
+    ...Object.values(ThirdPartyAccount.accountCache.items),
+  ];
+  const seen: { [id: string]: boolean } = {};
+  for (const account of accounts) {
+    if (account instanceof AutoSearchAccount && account.evidence && !seen[account.id]) {
+      seen[account.id] = true;
+      add(account.site.name, account.evidence.responseTime);
+    }
+  }
+
+  for (const siteName of Object.keys(health.sites)) {
+    add(siteName, health.sites[siteName].claimed.latency);
+    add(siteName, health.sites[siteName].unclaimed.latency);
+  }
+
+  const latencies: { [siteName: string]: number } = {};
+  for (const siteName of Object.keys(samples)) {
+    latencies[siteName] = samples[siteName].reduce((sum, latency) => sum + latency, 0) / samples[siteName].length;
+  }
+  return latencies;
+};
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Per-domain rate limiting for requests sent during a search.
+ */
+
+import { abortError } from './abort';
+
+/**
+ * Settings used by `RateLimiter`.
+ */
+export interface RateLimitOptions {
+  /** Number of times to retry a transient failure (see `retryStatuses`) or a network error before giving up. */
+  maxRetries: number;
+  /** Delay (ms) before the first retry when the server doesn't send `Retry-After`. Doubles on each failure. */
+  baseDelay: number;
+  /** Upper bound (ms) on any single delay, including ones requested by `Retry-After`. */
+  maxDelay: number;
+  /** HTTP status codes that indicate a transient failure. */
+  retryStatuses: number[];
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  maxRetries: 2,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  retryStatuses: [429, 502, 503, 504],
+};
+
+/**
+ * The parts of a response that `RateLimiter` needs to look at.
+ */
+export interface RateLimitedResponse {
+  status: number;
+  headers: { get: (name: string) => string | null };
+  /** Reads the body. Transient failures are read to the end before retrying so the connection is freed. */
+  text?: () => Promise<string>;
+}
+
+interface DomainState {
+  /** Epoch time (ms) before which no requests should be sent to the domain. */
+  blockedUntil: number;
+  /** Consecutive transient failures. Reset on the first non-transient response. */
+  failures: number;
+}
+
+/**
+ * Parse a `Retry-After` header into a delay in milliseconds.
+ *
+ * The header can either be a number of seconds or an HTTP date.
+ * Returns `null` if the header is missing or can't be parsed.
+ *
+ * https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
+ */
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | null => {
+  if (value === null || value.trim().length === 0) {
+    return null;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value.trim(), 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(0, date - now);
+};
+
+/**
+ * Tracks each domain that we send requests to and spaces out requests to
+ * domains that have told us to slow down.
+ *
+ * Transient failures (see `RateLimitOptions.retryStatuses`) are retried after
+ * honoring `Retry-After` or backing off exponentially. Network errors and
+ * timeouts thrown by `send` are retried with the same backoff. While a domain is backing
+ * off, every request to it waits, not just the one that failed.
+ */
+export class RateLimiter {
+  public options: RateLimitOptions;
+  private domains: { [host: string]: DomainState } = {};
+
+  constructor(options: RateLimitOptions = DEFAULT_RATE_LIMIT_OPTIONS) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Time (ms) remaining before requests to the domain of `url` are allowed again.
+   */
+  public getDelay(url: string) {
+    const state = this.domains[toDomain(url)];
+    if (state === undefined) {
+      return 0;
+    }
+    return Math.max(0, state.blockedUntil - Date.now());
+  }
+
+  /**
+   * Send a request to `url` via `send`, retrying transient failures.
+   *
+   * `send` is called once per attempt and should perform a fresh request each time.
+   *
+   * Throws if the request still fails after `options.maxRetries` retries.
+   * Rejects with an `AbortError` if `signal` is aborted, without retrying.
+   */
+  public async request<T extends RateLimitedResponse>(
+    url: string,
+    send: () => Promise<T>,
+    signal?: AbortSignal | null,
+  ): Promise<T> {
+    const domain = toDomain(url);
+    const state = (this.domains[domain] = this.domains[domain] || { blockedUntil: 0, failures: 0 });
+
+    for (let attempt = 0; ; attempt++) {
+      await sleep(this.getDelay(url), signal);
+
+      let response: T;
+      try {
+        response = await send();
+      } catch (e) {
+        if (signal?.aborted) {
+          throw e;
+        }
+
+        const errorDelay = this.backOff(state, null);
+        if (attempt >= this.options.maxRetries) {
+          throw e;
+        }
+
+        console.debug(`Request to ${domain} failed (${e.message}). Retrying in ${errorDelay}ms...`);
+        continue;
+      }
+
+      if (!this.options.retryStatuses.includes(response.status)) {
+        state.failures = 0;
+        return response;
+      }
+
+      const delay = this.backOff(state, parseRetryAfter(response.headers.get('Retry-After')));
+      await discardBody(response);
+      if (attempt >= this.options.maxRetries) {
+        throw new Error(`Rate limited by ${domain} (HTTP ${response.status}) after ${attempt} retries`);
+      }
+
+      console.debug(`${domain} responded with HTTP ${response.status}. Retrying in ${delay}ms...`);
+    }
+  }
+
+  /**
+   * Record a transient failure and block the domain until it may be retried.
+   * Returns the delay (ms).
+   */
+  private backOff(state: DomainState, retryAfter: number | null) {
+    state.failures++;
+
+    const backoff = this.options.baseDelay * Math.pow(2, state.failures - 1);
+    const delay = Math.min(retryAfter === null ? backoff : retryAfter, this.options.maxDelay);
+    state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay);
+    return delay;
+  }
+
+  /**
+   * Forget everything we know about each domain.
+   */
+  public reset() {
+    this.domains = {};
+  }
+}
+
+/**
+ * Rate limiter shared by every request that goes through `fetchWithTimeout`.
+ */
+export const rateLimiter = new RateLimiter();
+
+const toDomain = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return url;
+  }
+};
+
+/**
+ * Read and drop the body of a response we aren't going to use.
+ */
+const discardBody = async (response: RateLimitedResponse) => {
+  try {
+    await response.text?.();
+  } catch (e) {
+    // The body is thrown away either way
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(abortError());
+    };
+    const id = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+};
@@ -0,0 +1,315 @@
+/**
+ * @fileoverview Recurring `SearchDefinition` runs.
+ */
+
+import { EventEmitter } from 'events';
+import { Search, SearchDefinition, SearchState } from './search';
+
+/**
+ * How often a scheduled `SearchDefinition` runs.
+ */
+export enum ScheduleFrequency {
+  DAILY = 'Daily',
+  WEEKLY = 'Weekly',
+  CRON = 'Cron',
+}
+
+/**
+ * When a `SearchDefinition` should run automatically.
+ *
+ * `DAILY` and `WEEKLY` run that long after the last run started.
+ * `CRON` runs at the next time matching `cron` after the last run started.
+ */
+export interface SearchSchedule {
+  frequency: ScheduleFrequency;
+  /** Five field cron expression (`minute hour day-of-month month day-of-week`). Required for `CRON`. */
+  cron?: string;
+  /** Set to `false` to stop running without losing the schedule. */
+  enabled: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Return the first time after `after` that `schedule` should run.
+ */
+export const getNextRun = (schedule: SearchSchedule, after: Date): Date => {
+  if (schedule.frequency === ScheduleFrequency.DAILY) {
+    return new Date(after.getTime() + DAY_MS);
+  } else if (schedule.frequency === ScheduleFrequency.WEEKLY) {
+    return new Date(after.getTime() + 7 * DAY_MS);
+  } else if (schedule.frequency === ScheduleFrequency.CRON) {
+    if (!schedule.cron) {
+      throw new Error(`Schedule frequency '${schedule.frequency}' requires a cron expression!`);
+    }
+    return getNextCronRun(parseCron(schedule.cron), after);
+  } else {
+    throw new Error(`Unknown schedule frequency '${schedule.frequency}'`);
+  }
+};
+
+/**
+ * Throw if `schedule` can never run.
+ */
+export const validateSchedule = (schedule: SearchSchedule) => {
+  getNextRun(schedule, new Date());
+};
+
+////  Cron  ////
+
+/**
+ * Parsed cron expression. Each field is the set of values that match.
+ */
+export interface CronFields {
+  minutes: boolean[];
+  hours: boolean[];
+  daysOfMonth: boolean[];
+  months: boolean[];
+  daysOfWeek: boolean[];
+  /** `true` if the day of month field isn't `*`. */
+  restrictsDayOfMonth: boolean;
+  /** `true` if the day of week field isn't `*`. */
+  restrictsDayOfWeek: boolean;
+}
+
+/**
+ * Parse a five field cron expression.
+ *
+ * Supports `*`, numbers, ranges (`1-5`), steps (`*\/15`, `1-30/2`), and lists (`1,15`).
+ * Day of week is 0-7 where both 0 and 7 are Sunday.
+ *
+ * Throws if the expression is invalid.
+ */
+export const parseCron = (expression: string): CronFields => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression '${expression}'. Expected 5 fields but found ${fields.length}`);
+  }
+
+  const daysOfWeek = parseCronField(fields[4], 0, 7, expression);
+  daysOfWeek[0] = daysOfWeek[0] || daysOfWeek[7];
+
+  return {
+    minutes: parseCronField(fields[0], 0, 59, expression),
+    hours: parseCronField(fields[1], 0, 23, expression),
+    daysOfMonth: parseCronField(fields[2], 1, 31, expression),
+    months: parseCronField(fields[3], 1, 12, expression),
+    daysOfWeek,
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+};
+
+const parseCronField = (field: string, min: number, max: number, expression: string) => {
+  const values: boolean[] = [];
+  const invalid = () => new Error(`Invalid cron field '${field}' in '${expression}'`);
+
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr === undefined ? 1 : parseInt(stepStr, 10);
+    if (isNaN(step) || step < 1 || (stepStr !== undefined && !/^\d+$/.test(stepStr))) {
+      throw invalid();
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const bounds = range.split('-');
+      if (bounds.length > 2 || !bounds.every(bound => /^\d+$/.test(bound))) {
+        throw invalid();
+      }
+
+      start = parseInt(bounds[0], 10);
+      // A single value with a step (e.g. 5/15) runs to the end of the range
+      end = bounds.length === 2 ? parseInt(bounds[1], 10) : stepStr === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw invalid();
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values[value] = true;
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Return the first minute after `after` that matches `fields`.
+ *
+ * Uses local time.
+ */
+export const getNextCronRun = (fields: CronFields, after: Date): Date => {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  // Give up after 5 years so impossible expressions (e.g. February 30th) don't loop forever
+  const limit = after.getTime() + 5 * 366 * DAY_MS;
+
+  while (next.getTime() <= limit) {
+    if (!fields.months[next.getMonth() + 1]) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+      continue;
+    }
+
+    if (!matchesDay(fields, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+      continue;
+    }
+
+    if (!fields.hours[next.getHours()]) {
+      next.setHours(next.getHours() + 1, 0);
+      continue;
+    }
+
+    if (!fields.minutes[next.getMinutes()]) {
+      next.setMinutes(next.getMinutes() + 1);
+      continue;
+    }
+
+    return next;
+  }
+
+  throw new Error('Cron expression never matches!');
+};
+
+/**
+ * Standard cron behavior: if both day fields are restricted, either one can match.
+ */
+const matchesDay = (fields: CronFields, date: Date) => {
+  const dayOfMonth = Boolean(fields.daysOfMonth[date.getDate()]);
+  const dayOfWeek = Boolean(fields.daysOfWeek[date.getDay()]);
+
+  if (fields.restrictsDayOfMonth && fields.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+////  Scheduler  ////
+
+/**
+ * Starts runs of scheduled `SearchDefinition`s when they are due.
+ *
+ * - Only definitions in `SearchDefinition.cache` are considered. `check()` loads them all first.
+ * - A run is skipped if the definition already has a search in progress.
+ * - If several runs were missed (e.g. the app was closed), only one catch-up run is started.
+ *   The next run is then scheduled from that one.
+ *
+ * Emits `started` with the new `Search` and `skipped` with the `SearchDefinition`.
+ * If a run fails, emits `error` with the error and the `Search`. Without an `error` listener, the failure is logged.
+ */
+export class SearchScheduler {
+  public events = new EventEmitter();
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Runs that haven't finished yet. Each promise resolves once the run settles. */
+  private running: { [definitionId: string]: Promise<void> } = {};
+
+  /**
+   * Check for due definitions now and then every `interval` ms until `stop()` is called.
+   */
+  public async start(interval: number = MINUTE_MS) {
+    this.stop();
+    this.timer = setInterval(async () => {
+      try {
+        await this.check();
+      } catch (e) {
+        console.error('Scheduled search check failed!');
+        console.error(e);
+      }
+    }, interval);
+
+    return await this.check();
+  }
+
+  /**
+   * Stop checking for due definitions.
+   *
+   * Searches that have already started keep running.
+   */
+  public stop() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Start a run of each definition that is due at `now`.
+   *
+   * Returns the searches that were started. They are started but not awaited.
+   */
+  public async check(now: Date = new Date()) {
+    await SearchDefinition.loadAll();
+
+    const started: Search[] = [];
+    for (const definition of Object.values(SearchDefinition.cache.items)) {
+      try {
+        if (!isDue(definition, now)) {
+          continue;
+        }
+      } catch (e) {
+        console.warn(`Skipping schedule for '${definition.name}': ${e}`);
+        continue;
+      }
+
+      if (this.isRunning(definition)) {
+        console.debug(`Skipping scheduled run of '${definition.name}'. It is already running.`);
+        this.events.emit('skipped', definition);
+        continue;
+      }
+
+      started.push(await this.run(definition));
+    }
+
+    return started;
+  }
+
+  private isRunning(definition: SearchDefinition) {
+    return (
+      definition.id in this.running || definition.history.some(execution => execution.state === SearchState.IN_PROGRESS)
+    );
+  }
+
+  private async run(definition: SearchDefinition) {
+    console.log(`Starting scheduled run of '${definition.name}'...`);
+
+    const search = await definition.new();
+    this.events.emit('started', search);
+
+    // Searches can take minutes, so don't hold up the other definitions
+    this.running[definition.id] = search
+      .start()
+      .catch(e => this.fail(search, e))
+      .then(() => {
+        delete this.running[definition.id];
+      });
+
+    return search;
+  }
+
+  private fail(search: Search, e: any) {
+    if (this.events.listenerCount('error') > 0) {
+      this.events.emit('error', e, search);
+      return;
+    }
+
+    console.error(`Scheduled run of '${search.definition.name}' failed!`);
+    console.error(e);
+  }
+}
+
+/**
+ * Returns `true` if `definition` has an enabled schedule whose next run is at or before `now`.
+ */
+export const isDue = (definition: SearchDefinition, now: Date = new Date()) => {
+  const nextRunAt = definition.nextRunAt;
+  return nextRunAt !== null && nextRunAt.getTime() <= now.getTime();
+};
@@ -3,7 +3,6 @@
  * TRACE searches.
  */
 
-import { EventEmitter } from 'events';
 import {
   IDbStorable,
   getDb,
@@ -22,12 +21,21 @@ import {
   AutoSearchAccount,
   AutoSearchAccountAction,
   FailedAccount,
+  InvalidAccount,
   RegisteredAccount,
   ThirdPartyAccount,
   toAccountId,
   UnregisteredAccount,
 } from './accounts';
-import { findAccount } from './findAccount';
+import { EtaEstimator, SearchEventEmitter, SearchProgress } from './events';
+import { DEFAULT_EXECUTOR_OPTIONS, ExecutorOptions, getProbeHost, SearchExecutor, SearchTask } from './executor';
+import { findAccount, findEmailAccount } from './findAccount';
+import { SiteHealthReport } from './health';
+import { orderSites } from './ordering';
+import { planSearch } from './plan';
+import { getNextRun, SearchSchedule, validateSchedule } from './schedule';
+import { Transport } from './transport';
+import { DEFAULT_VARIANT_RULES, expandUserNames, UserNameCandidate, VariantRule } from './variants';
 import { perfLog } from 'meta';
 
 /**
@@ -117,7 +125,15 @@ export class SearchDefinition implements IDbStorable {
     instance.userNames = data.userNames;
     instance.firstNames = data.firstNames;
     instance.lastNames = data.lastNames;
+    instance.emails = data.emails || [];
+    instance.personas = data.personas || [];
     instance.tags = data.tags;
+    instance.expandVariants = data.expandVariants || false;
+    instance.variantRules = data.variantRules || [...DEFAULT_VARIANT_RULES];
+    instance.schedule = data.schedule || null;
+    instance.prioritizeSites = data.prioritizeSites ?? true;
+    instance.pinnedSites = data.pinnedSites || [];
+    instance.tagPriority = data.tagPriority || [];
 
     // IMPORTANT: Add our instance before we create search history so that
     // each entry can look us up and won't try to go to the db
@@ -147,17 +163,139 @@ export class SearchDefinition implements IDbStorable {
   public userNames: string[] = [];
   public firstNames: string[] = [];
   public lastNames: string[] = [];
+  /** Email addresses to search for on sites that have an `emailProbe`. */
+  public emails: string[] = [];
+
+  /**
+   * Other identities to search for alongside the top-level `userNames`, `firstNames`, `lastNames`, and `emails`.
+   *
+   * Names only count as matches on results for user names of the same persona.
+   * The top-level fields act as the persona with the ID `DEFAULT_PERSONA_ID`.
+   */
+  public personas: SearchPersona[] = [];
+
+  /** The top-level fields as a persona. Edits to the returned arrays change this definition. */
+  public get defaultPersona(): SearchPersona {
+    return {
+      id: DEFAULT_PERSONA_ID,
+      name: this.name,
+      userNames: this.userNames,
+      firstNames: this.firstNames,
+      lastNames: this.lastNames,
+      emails: this.emails,
+    };
+  }
+
+  /** `defaultPersona` followed by `personas`. */
+  public get allPersonas(): SearchPersona[] {
+    return [this.defaultPersona, ...this.personas];
+  }
+
+  /** If `true`, also search for variants of `userNames`, `firstNames`, and `lastNames`. */
+  public expandVariants: boolean = false;
+  /** Rules used to build variants when `expandVariants` is `true`. */
+  public variantRules: VariantRule[] = [...DEFAULT_VARIANT_RULES];
+
+  /**
+   * If `true`, searches probe the sites most likely to have the user's accounts first.
+   * Otherwise they follow `includedSites`. See `orderSites()`.
+   */
+  public prioritizeSites: boolean = true;
+  /** Names of sites to always search first, in order. Only used if `prioritizeSites` is `true`. */
+  public pinnedSites: string[] = [];
+  /** Tags whose sites are searched sooner, most important first. Only used if `prioritizeSites` is `true`. */
+  public tagPriority: string[] = [];
+
+  /**
+   * User names that a `Search` will look for on each site.
+   *
+   * For each persona in `allPersonas`, this is its `userNames`, followed by any
+   * generated variants if `expandVariants` is `true`. Duplicates are dropped,
+   * so a user name belongs to the first persona that has it.
+   */
+  public get candidates(): UserNameCandidate[] {
+    return this.identifiers
+      .filter(identifier => identifier.email === null)
+      .map(({ userName, variant }) => ({ userName, variant }));
+  }
+
+  /**
+   * Everything a `Search` looks for: `candidates`, followed by each persona's `emails`.
+   *
+   * Duplicates are dropped. Emails are only searched for on sites that have an `emailProbe`, and no bundled site has one yet.
+   */
+  public get identifiers(): SearchIdentifier[] {
+    const rules = this.expandVariants ? this.variantRules : [];
+    const personas = this.allPersonas;
+    const identifiers: SearchIdentifier[] = [];
+    const seen: { [userName: string]: boolean } = {};
+
+    const add = (identifier: SearchIdentifier) => {
+      if (identifier.userName.length === 0 || seen[identifier.userName]) {
+        return;
+      }
+      seen[identifier.userName] = true;
+      identifiers.push(identifier);
+    };
+
+    for (const persona of personas) {
+      for (const candidate of expandUserNames(persona.userNames, persona.firstNames, persona.lastNames, rules)) {
+        add({ ...candidate, email: null, personaId: persona.id });
+      }
+    }
+
+    for (const persona of personas) {
+      for (const email of persona.emails) {
+        add({ userName: email, variant: null, email, personaId: persona.id });
+      }
+    }
+
+    return identifiers;
+  }
+
+  /**
+   * Return the persona that `userName` (or email address) belongs to.
+   *
+   * Falls back to `defaultPersona` for anything this definition doesn't search for.
+   */
+  public getPersona(userName: string): SearchPersona {
+    const identifier = this.identifiers.find(candidate => candidate.userName === userName);
+    const personaId = identifier ? identifier.personaId : DEFAULT_PERSONA_ID;
+    return this.personas.find(persona => persona.id === personaId) || this.defaultPersona;
+  }
+
+  /**
+   * Add an empty persona and return it.
+   */
+  public addPersona(name?: string): SearchPersona {
+    const persona: SearchPersona = {
+      id: getRandomId(),
+      name: name || `Persona #${this.personas.length + 1}`,
+      userNames: [],
+      firstNames: [],
+      lastNames: [],
+      emails: [],
+    };
+    this.personas.push(persona);
+    return persona;
+  }
+
+  /** When to run this definition automatically. `null` if it only runs manually. */
+  public schedule: SearchSchedule | null = null;
 
   public history: Search[] = [];
   public get completedHistory() {
     return this.history.filter(execution => execution.state === SearchState.COMPLETED);
   }
 
+  /**
+   * The run that started most recently. Searches that haven't started are ignored.
+   */
   public get lastRun(): Search | null {
     // TODO: If this.history is sorted, we can simplify
-    let result = null;
+    let result: Search | null = null;
     for (const search of this.history) {
-      if (result === null || (search.startedAt && result.startedAt && search.startedAt >= result.startedAt)) {
+      if (search.startedAt && (result === null || search.startedAt >= result.startedAt!)) {
         result = search;
       }
     }
@@ -171,6 +309,19 @@ export class SearchDefinition implements IDbStorable {
     return null;
   }
 
+  /**
+   * When `schedule` will next start a run, or `null` if there is no enabled schedule.
+   *
+   * Counts from the last run, or from `createdAt` if it has never run.
+   * This can be in the past if a run was missed.
+   */
+  public get nextRunAt(): Date | null {
+    if (!this.schedule || !this.schedule.enabled) {
+      return null;
+    }
+    return getNextRun(this.schedule, this.lastRunAt || this.createdAt);
+  }
+
   constructor(name?: string, siteNames?: string[], tags?: string[]) {
     this.name = name || `Search #${++SearchDefinition.idForDefaultName}`;
     this.tags = tags || [];
@@ -214,6 +365,10 @@ export class SearchDefinition implements IDbStorable {
   public async save(): Promise<DbResponse> {
     console.debug(`Saving search definition ${this.id}...`);
 
+    if (this.schedule) {
+      validateSchedule(this.schedule);
+    }
+
     this.lastEditedAt = new Date();
 
     const db = await getDb();
@@ -282,7 +437,15 @@ export class SearchDefinition implements IDbStorable {
       userNames: this.userNames,
       firstNames: this.firstNames,
       lastNames: this.lastNames,
+      emails: this.emails,
+      personas: this.personas,
       tags: this.tags,
+      expandVariants: this.expandVariants,
+      variantRules: this.variantRules,
+      schedule: this.schedule,
+      prioritizeSites: this.prioritizeSites,
+      pinnedSites: this.pinnedSites,
+      tagPriority: this.tagPriority,
     };
   }
 }
@@ -396,6 +559,8 @@ export class Search implements IDbStorable {
     instance.state = data.state;
     instance.lastSiteIndex = data.lastSiteIndex;
     instance.lastUserNameIndex = data.lastUserNameIndex;
+    instance.siteOrder = data.siteOrder || null;
+    instance.excludedSiteNames = data.excludedSiteNames || [];
     instance.startedAt = data.startedAt ? new Date(data.startedAt) : null;
     instance.endedAt = data.endedAt ? new Date(data.endedAt) : null;
 
@@ -416,24 +581,141 @@ export class Search implements IDbStorable {
   public id: PouchDbId;
   public rev: string = '';
 
-  public state = SearchState.CREATED;
+  /** Emits `stateChange` when set. */
+  public get state() {
+    return this.currentState;
+  }
+  public set state(state: SearchState) {
+    const previous = this.currentState;
+    this.currentState = state;
+
+    if (state !== previous) {
+      this.events.emit('stateChange', { previous, state });
+    }
+  }
+  private currentState = SearchState.CREATED;
+
   public startedAt: Date | null = null;
   public endedAt: Date | null = null;
 
   public definition: SearchDefinition;
   public get progress() {
-    const denominator = this.definition.includedSites.length * this.definition.userNames.length;
+    const denominator = this.taskCount;
     if (denominator === 0) {
       return 100;
     }
-    return Math.round((Object.values(this.results).length / denominator) * 100);
+    return Math.round((this.completedCount / denominator) * 100);
+  }
+
+  /**
+   * Emits typed events as the search runs. See `SearchEventMap`.
+   *
+   * Use `for await (const event of search.events)` to follow a single run.
+   */
+  public events = new SearchEventEmitter();
+  private eta = new EtaEstimator();
+
+  /**
+   * Counts of completed/total site and user name pairs, plus an estimate of time remaining.
+   */
+  public get progressDetails(): SearchProgress {
+    const total = this.taskCount;
+    const completed = this.completedCount;
+
+    return {
+      completed,
+      total,
+      percent: this.progress,
+      eta: this.state === SearchState.IN_PROGRESS ? this.eta.estimate(total - completed) : null,
+    };
   }
 
-  public events = new EventEmitter();
+  /**
+   * Names of the sites in `definition.includedSites` that this run skips because they keep failing
+   * `validateSites()` checks. See `SiteHealthReport.excludeFailing`.
+   *
+   * Chosen when the run starts or resumes, and saved so that `progress` still adds up after reloading.
+   */
+  public excludedSiteNames: string[] = [];
 
+  /** `definition.includedSites` that are in `excludedSiteNames`. */
+  public get excludedSites() {
+    return this.definition.includedSites.filter(site => this.excludedSiteNames.includes(site.name));
+  }
+
+  /** Number of site/identifier pairs that this run searches. */
+  private get taskCount() {
+    const identifiers = this.definition.identifiers;
+    const userNameCount = identifiers.filter(identifier => identifier.email === null).length;
+    const emailCount = identifiers.length - userNameCount;
+
+    return this.definition.includedSites
+      .filter(site => !this.excludedSiteNames.includes(site.name))
+      .reduce((count, site) => count + userNameCount + (site.emailProbe ? emailCount : 0), 0);
+  }
+
+  /** Number of results that count toward `taskCount`. */
+  private get completedCount() {
+    return this.results.filter(result => !this.excludedSiteNames.includes(result.site.name)).length;
+  }
+
+  /** Index into `definition.identifiers` to resume on. */
   public lastUserNameIndex: number = 0;
+  /** Index into `siteSlots` to resume on. */
   public lastSiteIndex: number = 0;
 
+  /**
+   * Names of the sites in the order that this run searches them, or `null` before it starts.
+   *
+   * Chosen by `orderSites()` at the start of each run and kept until it finishes
+   * so that `lastSiteIndex` still points at the same site after resuming.
+   */
+  public siteOrder: string[] | null = null;
+
+  /**
+   * `definition.includedSites` in the order of `siteOrder`.
+   *
+   * Sites added to the definition since the order was chosen go last.
+   */
+  public get sites(): Site[] {
+    return this.siteSlots.filter((site): site is Site => site !== null);
+  }
+
+  /**
+   * Like `sites`, but sites removed from the definition since the order was chosen are left as `null`
+   * so that `lastSiteIndex` keeps pointing at the same site.
+   */
+  public get siteSlots(): (Site | null)[] {
+    const includedSites = this.definition.includedSites;
+    if (this.siteOrder === null) {
+      return includedSites;
+    }
+
+    const slots = this.siteOrder.map(siteName => includedSites.find(site => site.name === siteName) || null);
+    return [...slots, ...includedSites.filter(site => !slots.includes(site))];
+  }
+
+  /**
+   * Concurrency limits used while this search runs.
+   *
+   * Defaults to a copy of `DEFAULT_EXECUTOR_OPTIONS`. Not persisted.
+   */
+  public executorOptions: ExecutorOptions = { ...DEFAULT_EXECUTOR_OPTIONS };
+
+  /**
+   * Transport used to send this search's requests.
+   *
+   * If `null`, the default transport is used (see `setDefaultTransport()`). Not persisted.
+   */
+  public transport: Transport | null = null;
+
+  /** Aborts requests in flight when the search or a retry is paused or cancelled. */
+  private abortController: AbortController | null = null;
+  /** `start()`'s work, so that `pause()` and `cancel()` can wait for it to stop. */
+  private running: Promise<void> | null = null;
+  /** `retryFailed()`'s work, so that `pause()` and `cancel()` can wait for it to stop. Never rejects. */
+  private retrying: Promise<void> | null = null;
+
   /**
    * `resultsMap` is the best structure for storing and checking results
    * internally during search, but is kind of messy to iterate over after.
@@ -449,7 +731,13 @@ export class Search implements IDbStorable {
   public resultsById: SearchResultsById = {};
   public resultsMap: SearchResults = {};
   public resultsBySite: SearchResultsBySite = {};
+  /**
+   * Results keyed by user name, across all personas.
+   * Each user name belongs to one persona, so use `resultsByPersona` to group them by persona.
+   */
   public resultsByUser: SearchResultsByUser = {};
+  /** Results keyed by `personaId`. Results from before personas existed are under `DEFAULT_PERSONA_ID`. */
+  public resultsByPersona: SearchResultsByPersona = {};
   /** Search results that have not been claimed/rejected. */
   public get unevaluatedResults() {
     return this.results.filter(account => account.actionTaken === AutoSearchAccountAction.NONE);
@@ -470,6 +758,10 @@ export class Search implements IDbStorable {
   public get inconclusiveResults() {
     return this.unevaluatedResults.filter(account => account instanceof FailedAccount);
   }
+  /** Search results for user names that the site can never accept. */
+  public get invalidResults() {
+    return this.unevaluatedResults.filter(account => account instanceof InvalidAccount);
+  }
 
   constructor(definition: SearchDefinition) {
     this.definition = definition;
@@ -478,8 +770,18 @@ export class Search implements IDbStorable {
     this.id = toId(['search', new Date().toJSON()], this.definition.id);
   }
 
+  /**
+   * List every request that `start()` would send and every site/user name pair it would skip,
+   * plus an estimate of how long it would take. Doesn't send any requests. See `planSearch()`.
+   */
+  public plan() {
+    return planSearch(this);
+  }
+
   /**
    * Start the search.
+   *
+   * Resolves once the search completes, fails, or is stopped by `pause()` or `cancel()`.
    */
   public async start() {
     let logAction = '';
@@ -492,41 +794,66 @@ export class Search implements IDbStorable {
       throw new Error(`Cannot call start() while state is '${this.state}'!`);
     }
 
-    console.groupCollapsed(`${logAction} search...`);
+    if (this.retrying) {
+      throw new Error(`Cannot call start() while failed results are being retried!`);
+    }
 
     if (this.state === SearchState.CREATED) {
       this.startedAt = new Date();
     }
     this.state = SearchState.IN_PROGRESS;
+
+    this.running = this.run(logAction);
+    try {
+      await this.running;
+    } finally {
+      this.running = null;
+      this.events.emit('done', { state: this.state });
+    }
+  }
+
+  private async run(logAction: string) {
+    console.groupCollapsed(`${logAction} search...`);
+
+    this.abortController = new AbortController();
+    this.eta.reset();
     await this.save();
 
-    // TODO: This is synchronous right now
-    // Should probably devise something async
     try {
       await this.doSearch();
+
+      // pause() and cancel() save the search once we're done
       // Only mark as completed if the progress is 100%
-      // If progress is NOT 100%, this means that search has been paused
-      if (this.progress !== 100) {
-        console.groupEnd();
+      if (this.state !== SearchState.IN_PROGRESS || this.progress !== 100) {
         return;
       }
 
       this.state = SearchState.COMPLETED;
     } catch (e) {
+      // Leave cancelled searches alone
+      if (this.state !== SearchState.IN_PROGRESS) {
+        return;
+      }
+
       console.error(`Search failed!:`);
       console.error(e);
 
       this.state = SearchState.FAILED;
+      this.events.emit('error', { error: e });
+    } finally {
+      this.abortController = null;
+      console.groupEnd();
     }
 
     this.endedAt = new Date();
     await this.save();
-
-    console.groupEnd();
   }
 
   /**
    * Cancel the search.
+   *
+   * Requests in flight are aborted and their results are discarded.
+   * Resolves once the search has stopped and been saved.
    */
   public async cancel() {
     let logState = '';
@@ -537,6 +864,11 @@ export class Search implements IDbStorable {
       logState = 'paused';
     } else if (this.state === SearchState.CANCELLED) {
       return; // don't care, just don't do anything. already cancelled
+    } else if (this.retrying) {
+      // The search itself is done, so only the retry is cancelled
+      console.log(`Cancelling retry...`);
+      await this.stopRetry();
+      return;
     } else {
       console.error(`Cannot call cancel() while state is '${this.state}'!`);
       return;
@@ -546,7 +878,7 @@ export class Search implements IDbStorable {
 
     this.state = SearchState.CANCELLED;
     this.endedAt = new Date();
-    await this.save();
+    await this.stop();
   }
 
   /**
@@ -566,13 +898,21 @@ export class Search implements IDbStorable {
   }
 
   /**
-   * Pause the search
+   * Pause the search.
+   *
+   * Requests in flight are aborted and will be sent again on `resume()`.
+   * Resolves once the search has stopped and been saved.
    */
   public async pause() {
     let logState = '';
 
     if (this.state === SearchState.IN_PROGRESS) {
       logState = 'active';
+    } else if (this.retrying) {
+      // Results that weren't retried yet stay failed, so call retryFailed() again to pick them up
+      console.log(`Pausing retry...`);
+      await this.stopRetry();
+      return;
     } else {
       console.error(`Cannot call pause() while state is '${this.state}'!`);
       return;
@@ -581,19 +921,133 @@ export class Search implements IDbStorable {
     console.log(`Pausing ${logState} search...`);
 
     this.state = SearchState.PAUSED;
-    await this.save();
+    await this.stop();
+  }
 
-    // TODO: Wait for the pause to actually complete
+  /**
+   * Abort any requests in flight, wait for `start()` to wind down, and save.
+   */
+  private async stop() {
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+
+    if (this.running) {
+      await this.running;
+      await this.save();
+    } else {
+      await this.retrying;
+
+      // Nothing was running to emit it for us
+      await this.save();
+      this.events.emit('done', { state: this.state });
+    }
   }
 
   /**
-   * Perform the search for each `definition.includedSites`.
+   * Abort the requests sent by `retryFailed()` and wait for it to finish.
+   */
+  private async stopRetry() {
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+    await this.retrying;
+  }
+
+  /**
+   * Re-run the search for each result in `inconclusiveResults`.
+   *
+   * New results replace the `FailedAccount`s in the database (same IDs) and
+   * in `results`, `resultsById`, `resultsMap`, `resultsBySite`, `resultsByUser`, and `resultsByPersona`.
+   * A `result` event is emitted for each one.
+   *
+   * `pause()` and `cancel()` abort any retries in flight. Those results stay failed.
+   *
+   * Returns the new results.
+   */
+  public async retryFailed() {
+    if (this.state === SearchState.IN_PROGRESS) {
+      throw new Error(`Cannot call retryFailed() while state is '${this.state}'!`);
+    } else if (this.retrying) {
+      throw new Error(`Cannot call retryFailed() while failed results are already being retried!`);
+    }
+
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+
+    const failed = this.inconclusiveResults;
+    const retried: AutoSearchAccount[] = [];
+
+    console.groupCollapsed(`Retrying ${failed.length} failed results...`);
+
+    const tasks: SearchTask[] = failed.map(account => {
+      const siteIndex = this.definition.includedSites.findIndex(included => included.name === account.site.name);
+      const userNameIndex = this.definition.identifiers.findIndex(
+        identifier => identifier.userName === account.userName,
+      );
+
+      // Prefer the current site definition in case it has been fixed since the last run
+      const site = siteIndex === -1 ? account.site : this.definition.includedSites[siteIndex];
+
+      const host = getProbeHost(site, account.userName, account.email);
+      return { siteIndex, userNameIndex, site, userName: account.userName, host };
+    });
+
+    const executor = new SearchExecutor(
+      tasks,
+      async task => {
+        const previous = this.resultsMap[task.site.name][task.userName] as AutoSearchAccount;
+        const personaId = previous.personaId || DEFAULT_PERSONA_ID;
+
+        this.events.emit('siteStarted', { site: task.site, userName: task.userName, personaId });
+        const account = previous.email
+          ? await findEmailAccount(task.site, previous.email, this, signal)
+          : await findAccount(task.site, task.userName, this, signal);
+        account.rev = previous.rev;
+        account.variant = previous.variant;
+        account.personaId = previous.personaId;
+        await account.save();
+
+        this.replaceResult(previous, account);
+        retried.push(account);
+
+        this.events.emit('siteFinished', { site: task.site, userName: task.userName, personaId, account });
+      },
+      () => !signal.aborted,
+      this.executorOptions,
+    );
+
+    const run = executor.run();
+    this.retrying = run.catch(() => undefined);
+    try {
+      await run;
+    } finally {
+      this.retrying = null;
+      this.abortController = null;
+      console.groupEnd();
+    }
+
+    return retried;
+  }
+
+  /**
+   * Perform the search for each of `sites`.
+   *
+   * Probes run concurrently through a `SearchExecutor` using `executorOptions`.
    *
    * This is incremental. It won't duplicate sites that already have results.
    */
   protected async doSearch() {
     // TODO: what happens if a duplicate is found?
 
+    const identifiers = this.definition.identifiers;
+
+    // Skip sites that keep failing health checks, if the user asked for that
+    const health = await SiteHealthReport.load();
+    this.excludedSiteNames = this.definition.includedSites
+      .filter(site => health.isExcluded(site.name))
+      .map(site => site.name);
+
     // Save everything that the user has already claimed/rejected
     if (this.lastSiteIndex === 0 && this.lastUserNameIndex === 0) {
       // Load all claimed/rejected accounts into the cache since we need to check against a ton of them
@@ -601,10 +1055,14 @@ export class Search implements IDbStorable {
       await ThirdPartyAccount.loadAll();
 
       for (const site of this.definition.includedSites) {
-        for (const userName of this.definition.userNames) {
-          // It's not straightforward to lookup a search result given only the account ID
-          // We need to know the search definition and search or query across everything
-          // Just grab the account for now
+        // Excluded sites don't count toward progress, so their accounts can't either
+        if (this.excludedSiteNames.includes(site.name)) {
+          continue;
+        }
+
+        for (const { userName } of identifiers) {
+          // Only the account itself carries over into this search
+          // Past search results for it can be found with `getAccountHistory()`
           const id = toAccountId(site, userName);
           const existing = ThirdPartyAccount.accountCache.get(id);
 
@@ -616,24 +1074,39 @@ export class Search implements IDbStorable {
       }
     }
 
-    // starting from lastSiteIndex will immediately resume from where we paused, if applicable
-    // otherwise, this will have no effect (if not resuming) since lastSiteIndex is initialized to 0
-    for (let i = this.lastSiteIndex; i < this.definition.includedSites.length; i++) {
-      const site = this.definition.includedSites[i];
+    // Pick the site order for this run. Keep the old one if resuming so the indexes still line up
+    if (this.lastSiteIndex === 0 && this.lastUserNameIndex === 0) {
+      this.siteOrder = (await orderSites(this)).map(site => site.name);
+    }
+    const sites = this.siteSlots;
 
-      for (let j = this.lastUserNameIndex; j < this.definition.userNames.length; j++) {
-        // If the search has been cancelled, don't do anything else.
-        if (this.state === SearchState.CANCELLED) {
-          return;
-        } else if (this.state === SearchState.PAUSED) {
-          // save the site/username to resume on
-          this.lastSiteIndex = i;
-          this.lastUserNameIndex = j;
-          await this.save();
-          return;
-        }
+    // starting from lastSiteIndex/lastUserNameIndex will immediately resume from where we paused, if applicable
+    // otherwise, this will have no effect (if not resuming) since both are initialized to 0
+    const tasks: SearchTask[] = [];
+    for (let i = this.lastSiteIndex; i < sites.length; i++) {
+      const site = sites[i];
+
+      // Removed from the definition since the search was paused
+      if (site === null) {
+        continue;
+      }
+
+      if (this.excludedSiteNames.includes(site.name)) {
+        console.warn(`${site.name} excluded by site health checks.`);
+        continue;
+      }
+
+      // if resuming, starts back on the exact username that we left off on,
+      // but makes sure to search every username for the following sites
+      const firstUserNameIndex = i === this.lastSiteIndex ? this.lastUserNameIndex : 0;
+
+      for (let j = firstUserNameIndex; j < identifiers.length; j++) {
+        const userName = identifiers[j].userName;
 
-        const userName = this.definition.userNames[j];
+        // Only some sites can be searched by email
+        if (identifiers[j].email !== null && !site.emailProbe) {
+          continue;
+        }
 
         // Ignore sites that we already have results for
         if (site.name in this.resultsMap) {
@@ -647,19 +1120,71 @@ export class Search implements IDbStorable {
           continue;
         }
 
+        const host = getProbeHost(site, userName, identifiers[j].email);
+        tasks.push({ siteIndex: i, userNameIndex: j, site, userName, host });
+      }
+    }
+
+    const executor = new SearchExecutor(
+      tasks,
+      async task => {
         // Search for the account and store results
-        const account = await findAccount(site, userName, this);
+        // If this is aborted, the task stays pending and we pick it up on resume
+        const identifier = identifiers[task.userNameIndex];
+        const personaId = identifier.personaId;
+        this.events.emit('siteStarted', { site: task.site, userName: task.userName, personaId });
+        const signal = this.abortController?.signal;
+        const account =
+          identifier.email === null
+            ? await findAccount(task.site, task.userName, this, signal)
+            : await findEmailAccount(task.site, identifier.email, this, signal);
+        account.variant = identifier.variant;
+        account.personaId = personaId;
+
+        // Another source may have stored this while we were waiting
+        if (this.hasResult(task.site, task.userName)) {
+          return;
+        }
+
         await account.save();
 
         // Store in multiple formats. See note above result* member initialization
         this.storeResult(account);
+
+        this.eta.record();
+        this.events.emit('siteFinished', { site: task.site, userName: task.userName, personaId, account });
+        this.events.emit('progress', this.progressDetails);
+      },
+      () => this.state === SearchState.IN_PROGRESS,
+      this.executorOptions,
+    );
+
+    await executor.run();
+
+    // If the search has been cancelled, don't do anything else.
+    if (this.state === SearchState.CANCELLED) {
+      return;
+    } else if (this.state === SearchState.PAUSED) {
+      // Tasks can finish out of order, so resume on the first one that didn't finish
+      // Anything after it that did finish is skipped on resume since it's in `resultsMap`
+      const next = executor.pending[0];
+      if (next) {
+        this.lastSiteIndex = next.siteIndex;
+        this.lastUserNameIndex = next.userNameIndex;
+        return;
       }
-      // resets lastUserNameIndex once the search for one site is done.
-      // if resuming, starts back on the exact username that we left off on,
-      //    but makes sure to search every username for the following site searches
-      this.lastUserNameIndex = 0;
     }
-    this.lastSiteIndex = 0; // resets lastSiteIndex once the search is done.
+
+    // resets the indexes once the search is done.
+    this.lastSiteIndex = 0;
+    this.lastUserNameIndex = 0;
+  }
+
+  /**
+   * Returns `true` if a result for `userName` on `site` has already been stored.
+   */
+  protected hasResult(site: Site, userName: string) {
+    return site.name in this.resultsMap && userName in this.resultsMap[site.name];
   }
 
   /**
@@ -673,10 +1198,8 @@ export class Search implements IDbStorable {
 
     // If it's in the map, assume it's everywhere
     // Prevents pushing duplicates into `results`
-    if (site.name in this.resultsMap) {
-      if (account.userName in this.resultsMap[site.name]) {
-        return;
-      }
+    if (this.hasResult(site, account.userName)) {
+      return;
     }
 
     this.results.push(account);
@@ -687,6 +1210,30 @@ export class Search implements IDbStorable {
     this.resultsBySite[site.name].push(account);
     this.resultsByUser[account.userName] = this.resultsByUser[account.userName] || [];
     this.resultsByUser[account.userName].push(account);
+    const personaId = account.personaId || DEFAULT_PERSONA_ID;
+    this.resultsByPersona[personaId] = this.resultsByPersona[personaId] || [];
+    this.resultsByPersona[personaId].push(account);
+
+    ThirdPartyAccount.resultCache.add(account);
+
+    this.events.emit('result', account.id);
+  }
+
+  /**
+   * Swap `previous` for `account` everywhere that results are stored.
+   *
+   * Both must be results for the same site/username.
+   */
+  protected replaceResult(previous: AutoSearchAccount, account: AutoSearchAccount) {
+    const site = account.site;
+
+    replaceItem(this.results, previous, account);
+    delete this.resultsById[previous.id];
+    this.resultsById[account.id] = account;
+    this.resultsMap[site.name][account.userName] = account;
+    replaceItem(this.resultsBySite[site.name], previous, account);
+    replaceItem(this.resultsByUser[account.userName], previous, account);
+    replaceItem(this.resultsByPersona[previous.personaId || DEFAULT_PERSONA_ID], previous, account);
 
     ThirdPartyAccount.resultCache.add(account);
 
@@ -749,6 +1296,8 @@ export class Search implements IDbStorable {
       state: this.state,
       lastSiteIndex: this.lastSiteIndex,
       lastUserNameIndex: this.lastUserNameIndex,
+      siteOrder: this.siteOrder,
+      excludedSiteNames: this.excludedSiteNames,
       startedAt: this.startedAt ? this.startedAt.toJSON() : null,
       endedAt: this.endedAt ? this.endedAt.toJSON() : null,
       definitionId: this.definition.id,
@@ -756,6 +1305,41 @@ export class Search implements IDbStorable {
   }
 }
 
+/**
+ * Replace the first occurrence of `previous` in `items` with `next`.
+ */
+const replaceItem = <T>(items: T[], previous: T, next: T) => {
+  const index = items.indexOf(previous);
+  if (index !== -1) {
+    items[index] = next;
+  }
+};
+
+/**
+ * Something that a `Search` looks for on each site. Either a user name or an email address.
+ */
+export interface SearchIdentifier extends UserNameCandidate {
+  /** The email address if this is one, otherwise `null`. Email addresses are also used as the `userName`. */
+  email: string | null;
+  /** ID of the persona that this belongs to. */
+  personaId: string;
+}
+
+/** ID of the persona made of a `SearchDefinition`'s top-level fields. */
+export const DEFAULT_PERSONA_ID = 'default';
+
+/**
+ * One identity in a `SearchDefinition`.
+ */
+export interface SearchPersona {
+  id: string;
+  name: string;
+  userNames: string[];
+  firstNames: string[];
+  lastNames: string[];
+  emails: string[];
+}
+
 /**
  * State associated with a `Search`.
  */
@@ -796,6 +1380,10 @@ export interface SearchResultsByUser {
   [userName: string]: ThirdPartyAccount[];
 }
 
+export interface SearchResultsByPersona {
+  [personaId: string]: ThirdPartyAccount[];
+}
+
 /**
  * **DEPRECATED**
  * @deprecated Use `SearchDefinition.cache` instead.
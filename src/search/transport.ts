@@ -0,0 +1,263 @@
+/**
+ * @fileoverview Pluggable HTTP transports used to send the requests made by `findAccount`.
+ */
+
+import { isNode } from 'browser-or-node';
+import { checkExtensionRpc } from 'meta';
+import { throwIfAborted } from './abort';
+import { ExtensionRpc, ExtensionRpcHook } from './extension';
+
+/**
+ * The parts of a fetch `Response` that TRACE uses.
+ *
+ * A DOM `Response` satisfies this.
+ */
+export interface TransportResponse {
+  readonly status: number;
+  /** Final URL after following redirects. */
+  readonly url: string;
+  readonly headers: {
+    get: (name: string) => string | null;
+    forEach: (callback: (value: string, name: string) => void) => void;
+  };
+  text: () => Promise<string>;
+}
+
+/**
+ * Something that can send an HTTP request.
+ *
+ * Implementations should honor `options.signal` if they can.
+ */
+export interface Transport {
+  /** Short name for logging. */
+  readonly name: string;
+  fetch: (url: string, options: RequestInit) => Promise<TransportResponse>;
+}
+
+/**
+ * Request/response pair captured by `RecordingTransport`.
+ *
+ * This is plain JSON so that it can be stored and fed to `ReplayTransport`.
+ */
+export interface RecordedExchange {
+  request: {
+    url: string;
+    method: string;
+  };
+  response: {
+    status: number;
+    url: string;
+    headers: { [name: string]: string };
+    body: string;
+  };
+}
+
+/**
+ * Send requests with the browser's `fetch`.
+ */
+export class BrowserFetchTransport implements Transport {
+  public readonly name = 'browser';
+
+  public async fetch(url: string, options: RequestInit) {
+    return await fetch(url, options);
+  }
+}
+
+/**
+ * Send requests with `node-fetch`.
+ */
+export class NodeFetchTransport implements Transport {
+  public readonly name = 'node';
+
+  public async fetch(url: string, options: RequestInit): Promise<TransportResponse> {
+    // I hate node
+    const nodeFetch = require('node-fetch');
+    return await nodeFetch(url, options);
+  }
+}
+
+/**
+ * Ask the TRACE browser extension to send requests for us.
+ *
+ * The extension isn't subject to CORS, so we get back the real status,
+ * final URL, headers, and body instead of an error or an opaque response.
+ */
+export class ExtensionTransport implements Transport {
+  public readonly name = 'extension';
+  private rpc: ExtensionRpc;
+
+  constructor(hook: ExtensionRpcHook = window.__TRACE_EXTENSION_HOOK__) {
+    this.rpc = new ExtensionRpc(hook);
+  }
+
+  public async fetch(url: string, options: RequestInit) {
+    // AbortSignal can't be sent in a message
+    const { signal, ...request } = options;
+
+    const response: RecordedExchange['response'] = await this.rpc.call('fetch', { url, options: request }, signal);
+
+    return toTransportResponse({
+      request: { url, method: (options.method || 'GET').toUpperCase() },
+      response: {
+        status: response.status,
+        url: response.url || url,
+        headers: response.headers || {},
+        body: response.body || '',
+      },
+    });
+  }
+}
+
+/**
+ * Pass requests through to another transport and remember each exchange.
+ */
+export class RecordingTransport implements Transport {
+  public readonly name: string;
+  public recordings: RecordedExchange[] = [];
+
+  constructor(private inner: Transport) {
+    this.name = `recording(${inner.name})`;
+  }
+
+  public async fetch(url: string, options: RequestInit) {
+    const response = await this.inner.fetch(url, options);
+
+    // The body can only be read once, so hand back a copy built from the recording
+    const headers: { [name: string]: string } = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    const exchange: RecordedExchange = {
+      request: {
+        url,
+        method: (options.method || 'GET').toUpperCase(),
+      },
+      response: {
+        status: response.status,
+        url: response.url || url,
+        headers,
+        body: await response.text(),
+      },
+    };
+    this.recordings.push(exchange);
+
+    return toTransportResponse(exchange);
+  }
+}
+
+/**
+ * Settings used by `ReplayTransport`.
+ */
+export interface ReplayOptions {
+  /**
+   * If `true`, each recording answers a single request, in the order they were recorded.
+   * Repeated requests (retries, baselines) get the next matching recording instead of the first,
+   * and `unused` lists recordings that were never requested.
+   */
+  strict: boolean;
+}
+
+/**
+ * Answer requests from a list of `RecordedExchange`s without touching the network.
+ *
+ * Requests are matched on method and URL. Throws if there is no match.
+ * `findAccount` turns that into a `FailedAccount`, so check `misses` to catch it.
+ */
+export class ReplayTransport implements Transport {
+  public readonly name = 'replay';
+  /** Requests that didn't match a recording. */
+  public misses: RecordedExchange['request'][] = [];
+  private used: RecordedExchange[] = [];
+
+  constructor(public recordings: RecordedExchange[], public options: ReplayOptions = { strict: false }) {}
+
+  /** Recordings that haven't answered a request yet. */
+  public get unused() {
+    return this.recordings.filter(recording => !this.used.includes(recording));
+  }
+
+  public async fetch(url: string, options: RequestInit) {
+    throwIfAborted(options.signal);
+
+    const method = (options.method || 'GET').toUpperCase();
+
+    const candidates = this.options.strict ? this.unused : this.recordings;
+    const exchange = candidates.find(recording => {
+      return recording.request.url === url && recording.request.method === method;
+    });
+
+    if (exchange === undefined) {
+      this.misses.push({ url, method });
+      throw new Error(`No recording for ${method} ${url}`);
+    }
+
+    this.used.push(exchange);
+    return toTransportResponse(exchange);
+  }
+}
+
+/**
+ * Build a `TransportResponse` from a recorded exchange.
+ */
+export const toTransportResponse = (exchange: RecordedExchange): TransportResponse => {
+  const headers: { [name: string]: string } = {};
+  for (const name of Object.keys(exchange.response.headers)) {
+    headers[name.toLowerCase()] = exchange.response.headers[name];
+  }
+
+  return {
+    status: exchange.response.status,
+    url: exchange.response.url,
+    headers: {
+      get: (name: string) => (name.toLowerCase() in headers ? headers[name.toLowerCase()] : null),
+      forEach: callback => {
+        for (const name of Object.keys(headers)) {
+          callback(headers[name], name);
+        }
+      },
+    },
+    text: async () => exchange.response.body,
+  };
+};
+
+let _defaultTransport: Transport | null = null;
+let _nodeTransport: NodeFetchTransport | null = null;
+let _browserTransport: BrowserFetchTransport | null = null;
+let _extensionTransport: ExtensionTransport | null = null;
+
+/**
+ * Return the transport used by any `Search` that doesn't set `Search.transport`.
+ *
+ * Unless overridden with `setDefaultTransport()`, this picks a transport
+ * for the current environment. In the browser, requests go through the
+ * TRACE browser extension if a compatible version is installed.
+ */
+export const getDefaultTransport = (): Transport => {
+  if (_defaultTransport) {
+    return _defaultTransport;
+  }
+
+  if (isNode) {
+    _nodeTransport = _nodeTransport || new NodeFetchTransport();
+    return _nodeTransport;
+  }
+
+  // Check every time since the extension can inject its hook after we load
+  if (checkExtensionRpc()) {
+    _extensionTransport = _extensionTransport || new ExtensionTransport();
+    return _extensionTransport;
+  }
+
+  _browserTransport = _browserTransport || new BrowserFetchTransport();
+  return _browserTransport;
+};
+
+/**
+ * Override the transport used by any `Search` that doesn't set `Search.transport`.
+ *
+ * Pass `null` to go back to picking one for the current environment.
+ */
+export const setDefaultTransport = (transport: Transport | null) => {
+  _defaultTransport = transport;
+};
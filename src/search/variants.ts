@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Generate variants of a user's handles to search for.
+ */
+
+/**
+ * Rules used to build user name variants.
+ *
+ * Examples are for user name `jane.doe`, first name `Jane`, and last name `Doe`.
+ */
+export enum VariantRule {
+  /** `jane.doe` */
+  FIRST_DOT_LAST = 'first.last',
+  /** `jane_doe` */
+  FIRST_UNDERSCORE_LAST = 'first_last',
+  /** `jane-doe` */
+  FIRST_DASH_LAST = 'first-last',
+  /** `janedoe` */
+  FIRST_LAST = 'firstlast',
+  /** `jdoe` */
+  INITIAL_LAST = 'flast',
+  /** `janed` */
+  FIRST_INITIAL = 'firstl',
+  /** `doejane` */
+  LAST_FIRST = 'lastfirst',
+  /** `jane_doe`, `jane-doe`, and `janedoe` from user name `jane.doe` */
+  SEPARATORS = 'separators',
+}
+
+export const DEFAULT_VARIANT_RULES: VariantRule[] = [
+  VariantRule.FIRST_DOT_LAST,
+  VariantRule.FIRST_UNDERSCORE_LAST,
+  VariantRule.FIRST_LAST,
+  VariantRule.INITIAL_LAST,
+  VariantRule.SEPARATORS,
+];
+
+/**
+ * Where a generated user name came from.
+ */
+export interface UserNameVariant {
+  /** Rule that produced the user name. */
+  rule: VariantRule;
+  /** User name or first/last names that the rule was applied to. */
+  from: string[];
+}
+
+/**
+ * User name to search for.
+ *
+ * `variant` is `null` for user names that the user entered directly.
+ */
+export interface UserNameCandidate {
+  userName: string;
+  variant: UserNameVariant | null;
+}
+
+const SEPARATORS = ['.', '_', '-'];
+const SEPARATOR_REGEXP = /[._-]/;
+
+/** Joins a first and last name for each of the name-based rules. */
+const NAME_RULES: { [rule: string]: (first: string, last: string) => string } = {
+  [VariantRule.FIRST_DOT_LAST]: (first, last) => `${first}.${last}`,
+  [VariantRule.FIRST_UNDERSCORE_LAST]: (first, last) => `${first}_${last}`,
+  [VariantRule.FIRST_DASH_LAST]: (first, last) => `${first}-${last}`,
+  [VariantRule.FIRST_LAST]: (first, last) => `${first}${last}`,
+  [VariantRule.INITIAL_LAST]: (first, last) => `${first[0]}${last}`,
+  [VariantRule.FIRST_INITIAL]: (first, last) => `${first}${last[0]}`,
+  [VariantRule.LAST_FIRST]: (first, last) => `${last}${first}`,
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Build the list of user names to search for.
+ *
+ * `userNames` come first and in order, followed by any variants produced by `rules`.
+ * Duplicates are dropped, keeping the first occurrence.
+ */
+export const expandUserNames = (
+  userNames: string[],
+  firstNames: string[],
+  lastNames: string[],
+  rules: VariantRule[] = DEFAULT_VARIANT_RULES,
+): UserNameCandidate[] => {
+  const candidates: UserNameCandidate[] = [];
+  const seen: { [userName: string]: boolean } = {};
+
+  const add = (userName: string, variant: UserNameVariant | null) => {
+    if (userName.length === 0 || seen[userName]) {
+      return;
+    }
+    seen[userName] = true;
+    candidates.push({ userName, variant });
+  };
+
+  for (const userName of userNames) {
+    add(userName, null);
+  }
+
+  for (const rule of rules) {
+    if (rule === VariantRule.SEPARATORS) {
+      for (const userName of userNames) {
+        if (!SEPARATOR_REGEXP.test(userName)) {
+          continue;
+        }
+
+        const parts = userName.split(/[._-]+/);
+        for (const separator of SEPARATORS.concat([''])) {
+          add(parts.join(separator), { rule, from: [userName] });
+        }
+      }
+    } else if (rule in NAME_RULES) {
+      for (const firstName of firstNames) {
+        for (const lastName of lastNames) {
+          const first = normalizeName(firstName);
+          const last = normalizeName(lastName);
+          if (first.length === 0 || last.length === 0) {
+            continue;
+          }
+
+          add(NAME_RULES[rule](first, last), { rule, from: [firstName, lastName] });
+        }
+      }
+    } else {
+      console.warn(`Ignoring unknown variant rule '${rule}'`);
+    }
+  }
+
+  return candidates;
+};
@@ -10,7 +10,7 @@ interface PrivacyRatingList {
 
 /** Properties present on JSON site definitions from Sherlock. */
 interface SherlockSite {
-  /** `status_code`, `message`, or `response_url` */
+  /** `status_code`, `message`, `response_url`, `json_api`, or `regex` */
   errorType: string;
   /** Template URL for website profile page */
   url: string;
@@ -28,7 +28,7 @@ interface SherlockSite {
   errorUrl?: string;
   /** Alternate profile page test url for sites where profiles aren't publicly facing */
   urlProbe?: string;
-  /** ??? */
+  /** If `'True'`, user names can't contain a period (prefer `regexCheck`) */
   noPeriod?: string;
   /** HTTP headers to send with the request if needed */
   headers?: {};
@@ -50,9 +50,48 @@ interface TraceSite {
   logoColor?: string;
   /** If `true`, skip this site */
   omit?: boolean;
+  /**
+   * If `errorType === 'message'`, this message (or one of these messages) will be on the page if the profile exists.
+   * If set, pages with both or neither of `errorMsg` and `presenceMsg` give a `FailedAccount` instead of a guess
+   */
+  presenceMsg?: string | string[];
+  /** If `errorType === 'json_api'`, path to the value that decides whether the profile exists, e.g. `data.user.id` or `[0].username` */
+  jsonPath?: string;
+  /** If `errorType === 'json_api'`, the profile exists only if the value at `jsonPath` equals this. Otherwise any value other than `null`, `false`, `''`, or `[]` counts */
+  jsonValue?: string | number | boolean | null;
+  /** If `errorType === 'regex'`, the profile exists only if this pattern is found in the response body */
+  matchRegex?: string;
+  /** If `errorType === 'regex'`, the profile doesn't exist if this pattern is found in the response body */
+  errorRegex?: string;
+  /**
+   * How to check whether an email address has an account. Omit if the site can't be searched by email.
+   * No site in `trace.json` has one yet, so emails are never searched for until one is added
+   */
+  emailProbe?: EmailProbe;
   tags?: string[];
 }
 
+/**
+ * Request used to look up an account by email address instead of user name.
+ *
+ * Detection works the same as for user names, using the fields here instead of the site's.
+ */
+export interface EmailProbe {
+  /** Template URL to request. `{}` is replaced with the URL-encoded email address */
+  url: string;
+  /** `status_code`, `message`, `response_url`, `json_api`, or `regex` */
+  errorType: string;
+  errorMsg?: string | string[];
+  presenceMsg?: string | string[];
+  errorUrl?: string;
+  jsonPath?: string;
+  jsonValue?: string | number | boolean | null;
+  matchRegex?: string;
+  errorRegex?: string;
+  headers?: {};
+  request_head_only?: boolean;
+}
+
 interface TraceSiteList {
   [key: string]: TraceSite | SherlockSite;
 }
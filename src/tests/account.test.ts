@@ -1,15 +1,33 @@
-import { getDb, resetDb } from 'db';
+import PouchDB from 'pouchdb';
+import { AutoSearchAccountSchema, DB_OPTIONS, DEFAULT_SETTINGS, getDb, resetDb, toId } from 'db';
+import { doMigrations } from 'db/migrations';
 import {
+  AccountHistoryIndex,
   AccountType,
   ClaimedAccount,
   AutoSearchAccount,
   AutoSearchAccountAction,
+  ConfidenceEngine,
+  evidenceScorer,
   FailedAccount,
+  getAccountHistory,
+  getAccountTimeline,
+  InvalidAccount,
   ManualAccount,
+  privacyRatingScorer,
+  ProbeEvidence,
   RejectedAccount,
+  parseSearchResultId,
+  Search,
+  SearchDefinition,
+  siteReliabilityScorer,
   ThirdPartyAccount,
+  toAccountId,
   UnregisteredAccount,
   RegisteredAccount,
+  userNameScorer,
+  variantAgreementScorer,
+  VariantRule,
 } from 'search';
 import { allSites, Site } from 'sites';
 import { checkSaveResponse } from './util';
@@ -20,6 +38,7 @@ const accountClasses = [
   RegisteredAccount,
   UnregisteredAccount,
   FailedAccount,
+  InvalidAccount,
   ManualAccount,
 ];
 const SEARCH_PREFIX = 'searchDef/testing/test123';
@@ -298,3 +317,352 @@ describe('ManualAccount', () => {
     expect(deserialized.serialize()).toEqual(serialized);
   });
 });
+
+describe('Account evidence', () => {
+  const evidence: ProbeEvidence = {
+    method: 'GET',
+    url: 'https://example.test/test',
+    status: 200,
+    finalUrl: 'https://example.test/test',
+    responseTime: 120,
+    rule: 'message',
+    snippet: 'Profile of test',
+  };
+
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it('saves and restores evidence', async () => {
+    const account = new RegisteredAccount(SITE, USERNAME, SEARCH_PREFIX);
+    account.evidence = evidence;
+    await account.save();
+
+    const db = await getDb();
+    const deserialized = await ThirdPartyAccount.deserialize(await db.get(account.id));
+
+    expect((deserialized as AutoSearchAccount).evidence).toEqual(evidence);
+  });
+
+  it('keeps evidence when claimed', async () => {
+    const account = new RegisteredAccount(SITE, USERNAME, SEARCH_PREFIX);
+    account.evidence = evidence;
+
+    const claimed = await account.claim();
+
+    expect(claimed.evidence).toEqual(evidence);
+  });
+
+  it('is added to existing accounts by migration', async () => {
+    const rawDb = new PouchDB('account.test.ts', DB_OPTIONS);
+    await rawDb.put({ ...DEFAULT_SETTINGS, version: '0.0.6' });
+
+    const account = new RegisteredAccount(SITE, USERNAME, SEARCH_PREFIX);
+    const { evidence: _, ...oldDoc } = account.serialize();
+    await rawDb.put(oldDoc);
+    const topLevelAccount = new RegisteredAccount(SITE, USERNAME);
+    const { evidence: __, ...oldTopLevelDoc } = topLevelAccount.serialize();
+    await rawDb.put(oldTopLevelDoc);
+
+    await doMigrations(rawDb);
+
+    const doc = await rawDb.get<AutoSearchAccountSchema>(account.id);
+    expect(doc.evidence).toBeNull();
+    const topLevelDoc = await rawDb.get<AutoSearchAccountSchema>(topLevelAccount.id);
+    expect(topLevelDoc.evidence).toBeNull();
+  });
+});
+
+describe('Account confidence', () => {
+  const site: Site = {
+    name: 'Example',
+    url: 'https://example.test/{}',
+    urlMain: 'https://example.test',
+    errorType: 'status_code',
+    username_claimed: '',
+    username_unclaimed: '',
+    tags: [],
+  };
+
+  it('matches the original formula by default', () => {
+    const account = new RegisteredAccount(site, USERNAME);
+    expect(account.confidence).toEqual(3);
+
+    account.matchedFirstNames = ['Jane', 'Janet'];
+    account.matchedLastNames = ['Doe'];
+    expect(account.confidence).toEqual(7);
+
+    account.matchedLastNames = ['Doe', 'Smith', 'Jones'];
+    expect(account.confidence).toEqual(10);
+
+    expect(new UnregisteredAccount(site, USERNAME).confidence).toEqual(0);
+    expect(new FailedAccount(site, USERNAME).confidence).toEqual(0);
+  });
+
+  it('explains each contribution', () => {
+    const account = new RegisteredAccount(site, USERNAME);
+    account.matchedLastNames = ['Doe'];
+
+    const explanation = account.explainConfidence();
+
+    expect(explanation.rating).toEqual(5);
+    expect(explanation.total).toEqual(5);
+    expect(explanation.signals.map(signal => [signal.scorer, signal.points])).toEqual([
+      ['userName', 3],
+      ['lastNames', 2],
+    ]);
+    expect(explanation.signals[1].reason).toContain('Doe');
+  });
+
+  it('keeps the original rating for plain name matches', () => {
+    // Reviewed site that checks for a message, with a snippet
+    const account = new RegisteredAccount({ ...site, name: 'Archive.org', errorType: 'message' }, USERNAME);
+    account.evidence = {
+      method: 'GET',
+      url: 'https://example.test/test',
+      status: 200,
+      finalUrl: 'https://example.test/test',
+      responseTime: 100,
+      rule: 'message',
+      snippet: 'test',
+    };
+
+    const explanation = account.explainConfidence();
+    expect(explanation.signals.map(signal => signal.scorer)).toEqual([
+      'userName',
+      'siteReliability',
+      'privacyRating',
+      'evidence',
+    ]);
+    expect(explanation.total).toBeCloseTo(3.45);
+    expect(account.confidence).toEqual(3);
+
+    // Not reviewed, not supported, and redirected
+    const omitted = new RegisteredAccount({ ...site, omit: true }, USERNAME);
+    omitted.evidence = { ...account.evidence, finalUrl: 'https://example.test/login' };
+    expect(omitted.explainConfidence().total).toBeCloseTo(2.65);
+    expect(omitted.confidence).toEqual(3);
+  });
+
+  it('finds the search that produced the account', async () => {
+    const search = await new SearchDefinition(undefined, []).new();
+
+    const variant = new RegisteredAccount(site, 'janedoe', toId(['searchResult'], search.id));
+    variant.variant = { rule: VariantRule.FIRST_LAST, from: ['Jane', 'Doe'] };
+    search.resultsByUser.janedoe = [variant];
+
+    expect(variant.searchId).toEqual(search.id);
+    expect(variant.confidence).toEqual(2);
+    expect(variant.explainConfidence().signals.map(signal => signal.scorer)).toContain('variantAgreement');
+
+    expect(new RegisteredAccount(site, 'janedoe').searchId).toBeNull();
+  });
+
+  it('runs custom scorers', () => {
+    const engine = new ConfidenceEngine([userNameScorer, siteReliabilityScorer, privacyRatingScorer]);
+    const account = new RegisteredAccount({ ...site, name: 'Archive.org', errorType: 'message' }, USERNAME);
+
+    const explanation = engine.explain(account);
+
+    expect(explanation.signals.map(signal => signal.scorer)).toEqual(['userName', 'siteReliability', 'privacyRating']);
+    expect(explanation.total).toBeCloseTo(3.3);
+  });
+
+  it('penalizes redirected results', () => {
+    const engine = new ConfidenceEngine([evidenceScorer]);
+    const account = new RegisteredAccount(site, USERNAME);
+    account.evidence = {
+      method: 'GET',
+      url: 'https://example.test/test',
+      status: 200,
+      finalUrl: 'https://example.test/login',
+      responseTime: 100,
+      rule: 'status_code',
+      snippet: null,
+    };
+
+    const explanation = engine.explain(account);
+
+    expect(explanation.total).toEqual(-0.15);
+    expect(explanation.rating).toEqual(0);
+    expect(explanation.signals[0].reason).toContain('https://example.test/login');
+  });
+
+  it('checks generated user names against other results', async () => {
+    const engine = new ConfidenceEngine([variantAgreementScorer]);
+    const definition = new SearchDefinition(undefined, []);
+    const search = new Search(definition);
+
+    const variant = new RegisteredAccount(site, 'janedoe');
+    variant.variant = { rule: VariantRule.FIRST_LAST, from: ['Jane', 'Doe'] };
+    search.results.push(variant);
+    search.resultsByUser.janedoe = [variant];
+
+    // Not enough context
+    expect(engine.explain(variant).signals).toHaveLength(0);
+    expect(engine.explain(variant, { search }).total).toEqual(-1);
+
+    const other = new RegisteredAccount({ ...site, name: 'Other' }, 'janedoe');
+    search.resultsByUser.janedoe.push(other);
+    expect(engine.explain(variant, { search }).total).toEqual(1);
+  });
+
+  it('replaces and removes scorers by name', () => {
+    const engine = new ConfidenceEngine();
+    const account = new RegisteredAccount(site, USERNAME);
+
+    engine.add({ ...userNameScorer, weight: 5 });
+    expect(engine.rate(account)).toEqual(5);
+    expect(engine.scorers.filter(scorer => scorer.name === 'userName')).toHaveLength(1);
+
+    expect(engine.remove('userName')).toBeTruthy();
+    expect(engine.remove('userName')).toBeFalsy();
+    expect(engine.rate(account)).toEqual(0);
+  });
+
+  it('skips scorers that throw', () => {
+    const engine = new ConfidenceEngine([
+      userNameScorer,
+      {
+        name: 'broken',
+        weight: 1,
+        score: () => {
+          throw new Error('oops');
+        },
+      },
+    ]);
+
+    expect(engine.rate(new RegisteredAccount(site, USERNAME))).toEqual(3);
+  });
+});
+
+describe('Account history', () => {
+  const OTHER_SEARCH_PREFIX = 'searchDef/testing/test456/search/2020-01-02T00:00:00.000Z/searchResult';
+  const FIRST_SEARCH_PREFIX = 'searchDef/testing/test123/search/2020-01-01T00:00:00.000Z/searchResult';
+  const SECOND_SEARCH_PREFIX = 'searchDef/testing/test123/search/2020-01-03T00:00:00.000Z/searchResult';
+  const SYNCED_SEARCH_PREFIX = 'searchDef/testing/test789/search/2020-01-04T00:00:00.000Z/searchResult';
+
+  const saveResult = async (account: AutoSearchAccount, createdAt: string) => {
+    account.createdAt = new Date(createdAt);
+    await account.save();
+    return account;
+  };
+
+  /** Resolve once the first change to `db` after `since` has reached the change feeds that were already open. */
+  const changeAfter = async (db: PouchDB.Database, since: number | string) => {
+    const changes = db.changes({ since, live: true });
+    await new Promise(resolve => changes.on('change', resolve));
+    changes.cancel();
+  };
+
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it('parses search result IDs', () => {
+    const account = new RegisteredAccount(SITE, USERNAME, FIRST_SEARCH_PREFIX);
+    expect(parseSearchResultId(account.id)).toEqual({
+      id: account.id,
+      accountId: toAccountId(SITE, USERNAME),
+      searchId: 'searchDef/testing/test123/search/2020-01-01T00:00:00.000Z',
+      definitionId: 'searchDef/testing/test123',
+    });
+    expect(parseSearchResultId(toAccountId(SITE, USERNAME))).toBeNull();
+  });
+
+  it('finds results across searches and definitions', async () => {
+    const first = await saveResult(new UnregisteredAccount(SITE, USERNAME, FIRST_SEARCH_PREFIX), '2020-01-01');
+    const other = await saveResult(new RegisteredAccount(SITE, USERNAME, OTHER_SEARCH_PREFIX), '2020-01-02');
+    const second = await saveResult(new RegisteredAccount(SITE, USERNAME, SECOND_SEARCH_PREFIX), '2020-01-03');
+    await saveResult(new RegisteredAccount(SITE, 'someone else', FIRST_SEARCH_PREFIX), '2020-01-01');
+    await new ClaimedAccount(SITE, USERNAME).save();
+
+    const index = await AccountHistoryIndex.build();
+    expect(index.accountIds).toHaveLength(2);
+    expect(index.get(toAccountId(SITE, USERNAME)).map(ref => ref.id)).toHaveLength(3);
+
+    // Out of the cache to make sure they are loaded from the database
+    ThirdPartyAccount.resultCache.clear();
+    const history = await getAccountHistory(toAccountId(SITE, USERNAME));
+    expect(history.map(result => result.id)).toEqual([first.id, other.id, second.id]);
+    expect(history[1]).toBeInstanceOf(RegisteredAccount);
+
+    expect(await getAccountHistory(toAccountId(SITE, 'nobody'))).toEqual([]);
+  });
+
+  it('skips results removed since the index was built', async () => {
+    const first = await saveResult(new RegisteredAccount(SITE, USERNAME, FIRST_SEARCH_PREFIX), '2020-01-01');
+    const second = await saveResult(new RegisteredAccount(SITE, USERNAME, SECOND_SEARCH_PREFIX), '2020-01-03');
+
+    const index = await AccountHistoryIndex.build();
+    await first.remove();
+
+    const history = await getAccountHistory(toAccountId(SITE, USERNAME), index);
+    expect(history.map(result => result.id)).toEqual([second.id]);
+  });
+
+  it('keeps the shared index up to date', async () => {
+    const first = await saveResult(new RegisteredAccount(SITE, USERNAME, FIRST_SEARCH_PREFIX), '2020-01-01');
+    expect((await getAccountHistory(toAccountId(SITE, USERNAME))).map(result => result.id)).toEqual([first.id]);
+
+    const build = jest.spyOn(AccountHistoryIndex, 'build');
+    const second = await saveResult(new RegisteredAccount(SITE, USERNAME, SECOND_SEARCH_PREFIX), '2020-01-03');
+    await first.remove();
+
+    expect((await getAccountHistory(toAccountId(SITE, USERNAME))).map(result => result.id)).toEqual([second.id]);
+    expect((await AccountHistoryIndex.shared()).get(toAccountId(SITE, USERNAME))).toHaveLength(1);
+    expect(build).not.toHaveBeenCalled();
+    build.mockRestore();
+  });
+
+  it('follows results that are synced or removed elsewhere', async () => {
+    const db = await getDb();
+    const first = await saveResult(new RegisteredAccount(SITE, USERNAME, FIRST_SEARCH_PREFIX), '2020-01-01');
+    expect(await ThirdPartyAccount.history(toAccountId(SITE, USERNAME))).toEqual([first]);
+
+    // Saved by another device, so it's never been in this database
+    const remote = new PouchDB('account.test.ts.history', DB_OPTIONS);
+    const synced = new RegisteredAccount(SITE, USERNAME, SYNCED_SEARCH_PREFIX);
+    synced.createdAt = new Date('2020-01-04');
+    await remote.put(synced.serialize());
+    let since = (await db.info()).update_seq;
+    await db.replicate.from(remote);
+    await changeAfter(db, since);
+
+    const history = await ThirdPartyAccount.history(toAccountId(SITE, USERNAME));
+    expect(history.map(result => result.id)).toEqual([first.id, synced.id]);
+
+    since = (await db.info()).update_seq;
+    await db.remove(await db.get(first.id));
+    await changeAfter(db, since);
+
+    expect((await ThirdPartyAccount.history(toAccountId(SITE, USERNAME))).map(result => result.id)).toEqual([
+      synced.id,
+    ]);
+  });
+
+  it('lists changes in status', async () => {
+    const first = await saveResult(new UnregisteredAccount(SITE, USERNAME, FIRST_SEARCH_PREFIX), '2020-01-01');
+    await saveResult(new UnregisteredAccount(SITE, USERNAME, OTHER_SEARCH_PREFIX), '2020-01-02');
+    const third = await saveResult(new RegisteredAccount(SITE, USERNAME, SECOND_SEARCH_PREFIX), '2020-01-03');
+
+    const timeline = await getAccountTimeline(toAccountId(SITE, USERNAME));
+    expect(await ThirdPartyAccount.timeline(toAccountId(SITE, USERNAME))).toEqual(timeline);
+    expect(timeline).toEqual([
+      {
+        at: first.createdAt,
+        type: AccountType.UNREGISTERED,
+        previousType: null,
+        resultId: first.id,
+        searchId: 'searchDef/testing/test123/search/2020-01-01T00:00:00.000Z',
+      },
+      {
+        at: third.createdAt,
+        type: AccountType.REGISTERED,
+        previousType: AccountType.UNREGISTERED,
+        resultId: third.id,
+        searchId: 'searchDef/testing/test123/search/2020-01-03T00:00:00.000Z',
+      },
+    ]);
+  });
+});
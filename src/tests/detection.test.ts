@@ -0,0 +1,31 @@
+import { AccountType, findAccount } from 'search';
+import { allSites } from 'sites';
+import { useHttpFixture } from './httpFixtures';
+
+// Hand-written from each site's responses, trimmed to what detection looks at.
+// Recording again replaces them with the full pages. See `useHttpFixture()`
+useHttpFixture('detection');
+
+describe.each([
+  ['Chess', 'status_code'],
+  ['Ebay', 'message'],
+  ['Codeforces', 'response_url'],
+])('%s (%s)', (siteName, errorType) => {
+  const site = allSites[siteName];
+
+  it('uses the detection method under test', () => {
+    expect(site.errorType).toEqual(errorType);
+  });
+
+  it('finds the claimed user name', async () => {
+    const account = await findAccount(site, site.username_claimed);
+    expect(account.type).toEqual(AccountType.REGISTERED);
+    expect(account.evidence?.rule).toEqual(errorType);
+  });
+
+  it("doesn't find the unclaimed user name", async () => {
+    const account = await findAccount(site, site.username_unclaimed);
+    expect(account.type).toEqual(AccountType.UNREGISTERED);
+    expect(account.evidence?.rule).toEqual(errorType);
+  });
+});
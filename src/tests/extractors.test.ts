@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { resetDb } from 'db';
+import {
+  extractSiteProfile,
+  findAccount,
+  getSiteExtractor,
+  RecordedExchange,
+  RegisteredAccount,
+  registerSiteExtractor,
+  ReplayTransport,
+  setDefaultTransport,
+  SiteExtractorInput,
+  unregisterSiteExtractor,
+} from 'search';
+import { allSites } from 'sites';
+
+const readFixture = (name: string) => {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'extractors', name), 'utf8');
+};
+
+const extract = (siteName: string, body: string, userName = 'blue') => {
+  const site = allSites[siteName];
+  const input: SiteExtractorInput = { body, url: site.url.replace('{}', userName), userName };
+  return extractSiteProfile(site, input);
+};
+
+describe('Site extractors', () => {
+  it('reads GitHub profile pages', () => {
+    expect(extract('GitHub', readFixture('github.html'))).toEqual({
+      followers: 1200,
+      following: 31,
+      posts: 42,
+      lastActiveAt: '2021-03-04T00:00:00.000Z',
+    });
+  });
+
+  it('reads Hacker News user pages', () => {
+    expect(extract('HackerNews', readFixture('hackerNews.html'))).toEqual({
+      reputation: 12345,
+      joinedAt: '2007-04-04T00:00:00.000Z',
+    });
+  });
+
+  it('reads the Docker Hub user API', () => {
+    expect(extract('Docker Hub', readFixture('dockerHub.json'))).toEqual({
+      joinedAt: '2014-06-30T16:56:00.000Z',
+    });
+
+    // Some other user's profile
+    expect(extract('Docker Hub', readFixture('dockerHub.json'), 'green')).toBeNull();
+  });
+
+  it('returns null for pages it does not recognize', () => {
+    expect(extract('GitHub', '<html>Not Found</html>')).toBeNull();
+    expect(extract('Docker Hub', 'not json')).toBeNull();
+  });
+
+  it('returns null for sites without an extractor', () => {
+    expect(getSiteExtractor('Reddit')).toBeNull();
+    expect(extract('Reddit', readFixture('github.html'))).toBeNull();
+  });
+});
+
+describe('Site extractor registry', () => {
+  afterEach(() => {
+    unregisterSiteExtractor('Reddit');
+    setDefaultTransport(null);
+  });
+
+  it('registers extractors for known sites only', () => {
+    const extractor = () => ({ followers: 1 });
+
+    registerSiteExtractor('Reddit', extractor);
+    expect(getSiteExtractor('Reddit')).toBe(extractor);
+    expect(unregisterSiteExtractor('Reddit')).toBe(true);
+    expect(unregisterSiteExtractor('Reddit')).toBe(false);
+
+    expect(() => registerSiteExtractor('Not a site', extractor)).toThrow();
+  });
+
+  it('ignores extractors that throw', () => {
+    registerSiteExtractor('Reddit', () => {
+      throw new Error('Page changed');
+    });
+
+    expect(extract('Reddit', '')).toBeNull();
+  });
+
+  it('runs after a positive match', async () => {
+    await resetDb();
+
+    const url = 'https://www.github.com/blue';
+    const recorded: RecordedExchange = {
+      request: { url, method: 'GET' },
+      response: { status: 200, url, headers: { 'Content-Type': 'text/html' }, body: readFixture('github.html') },
+    };
+    setDefaultTransport(new ReplayTransport([recorded]));
+
+    // GitHub is status_code, so this would be a HEAD request without an extractor
+    const account = await findAccount(allSites.GitHub, 'blue');
+
+    expect(account).toBeInstanceOf(RegisteredAccount);
+    expect(account.siteProfile).toMatchObject({ followers: 1200, posts: 42 });
+  });
+});
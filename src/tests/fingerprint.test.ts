@@ -0,0 +1,213 @@
+import { resetDb } from 'db';
+import {
+  AccountType,
+  createFingerprint,
+  DEFAULT_FINGERPRINT_OPTIONS,
+  describeProbe,
+  FailedAccount,
+  fingerprintCache,
+  findAccount,
+  hashSimilarity,
+  RegisteredAccount,
+  ReplayTransport,
+  setDefaultTransport,
+  simHash,
+  Transport,
+  UnregisteredAccount,
+} from 'search';
+import { Site } from 'sites';
+import { siteExchange } from './util';
+
+const site: Site = {
+  name: 'Example',
+  url: 'https://example.test/{}',
+  urlMain: 'https://example.test',
+  errorType: 'status_code',
+  request_head_only: false,
+  username_claimed: 'claimed',
+  username_unclaimed: 'unclaimed',
+  tags: [],
+};
+
+const softNotFoundPage = (userName: string) => `
+  <html><head><title>${userName} | Example</title></head>
+  <body>
+    <h1>Hmm, we couldn't find ${userName}</h1>
+    <p>Maybe they changed their name? Request 8f3a${userName.length}2 at ${Date.now()}</p>
+    <a href="/">Back to the home page</a>
+  </body></html>`;
+
+const profilePage = `
+  <html><head><title>claimed | Example</title></head>
+  <body>
+    <h1>claimed</h1>
+    <ul><li>Joined in 2012</li><li>42 posts</li><li>Likes long walks on the beach and writing parsers</li></ul>
+    <section>Recent activity: commented on "Why is my regex slow?"</section>
+  </body></html>`;
+
+describe('Response fingerprints', () => {
+  it('ignores the user name and numbers', () => {
+    const a = createFingerprint(200, 'https://example.test/alice', softNotFoundPage('alice'), 'alice');
+    const b = createFingerprint(200, 'https://example.test/bob', softNotFoundPage('bob'), 'bob');
+
+    expect(a).toEqual(b);
+    expect(a.finalUrl).toEqual('https://example.test/{}');
+  });
+
+  it('gives different pages different hashes', () => {
+    const a = simHash(softNotFoundPage('claimed').toLowerCase());
+    const b = simHash(profilePage.toLowerCase());
+
+    expect(hashSimilarity(a, a)).toEqual(1);
+    expect(hashSimilarity(a, b)).toBeLessThan(fingerprintCache.options.minSimilarity);
+  });
+
+  it('matches on status, URL, length, and hash', () => {
+    const baseline = createFingerprint(200, 'https://example.test/x', softNotFoundPage('x'), 'x');
+
+    expect(fingerprintCache.matches(baseline, { ...baseline })).toBe(true);
+    expect(fingerprintCache.matches(baseline, { ...baseline, status: 404 })).toBe(false);
+    expect(fingerprintCache.matches(baseline, { ...baseline, finalUrl: 'https://example.test/login' })).toBe(false);
+    expect(fingerprintCache.matches(baseline, { ...baseline, length: baseline.length * 2 })).toBe(false);
+  });
+});
+
+describe('findAccount soft 404 detection', () => {
+  beforeEach(async () => {
+    await resetDb();
+    fingerprintCache.reset();
+    fingerprintCache.options.enabled = true;
+  });
+
+  afterEach(() => {
+    setDefaultTransport(null);
+    fingerprintCache.options.enabled = DEFAULT_FINGERPRINT_OPTIONS.enabled;
+  });
+
+  it('detects pages that look like the unclaimed user name', async () => {
+    setDefaultTransport(
+      new ReplayTransport([
+        siteExchange(site, 'unclaimed', 200, softNotFoundPage('unclaimed')),
+        siteExchange(site, 'missing', 200, softNotFoundPage('missing')),
+        siteExchange(site, 'claimed', 200, profilePage),
+      ]),
+    );
+
+    const missing = await findAccount(site, 'missing');
+    expect(missing).toBeInstanceOf(UnregisteredAccount);
+    expect(missing.evidence!.rule).toEqual('fingerprint');
+
+    const claimed = await findAccount(site, 'claimed');
+    expect(claimed).toBeInstanceOf(RegisteredAccount);
+    expect(claimed.evidence!.rule).toEqual('status_code');
+  });
+
+  it('sends a GET to status_code sites without request_head_only', async () => {
+    const { request_head_only, ...defaultSite } = site;
+    setDefaultTransport(
+      new ReplayTransport([
+        siteExchange(site, 'unclaimed', 200, softNotFoundPage('unclaimed')),
+        siteExchange(site, 'missing', 200, softNotFoundPage('missing')),
+      ]),
+    );
+
+    const missing = await findAccount(defaultSite, 'missing');
+    expect(missing.type).not.toEqual(AccountType.REGISTERED);
+    expect(missing.evidence!.method).toEqual('GET');
+    expect(missing.evidence!.rule).toEqual('fingerprint');
+    expect(describeProbe(defaultSite, 'missing').method).toEqual('GET');
+
+    fingerprintCache.options.enabled = false;
+    expect(describeProbe(defaultSite, 'missing').method).toEqual('HEAD');
+  });
+
+  it('probes each site once', async () => {
+    const transport = new ReplayTransport([
+      siteExchange(site, 'unclaimed', 200, softNotFoundPage('unclaimed')),
+      siteExchange(site, 'missing', 200, softNotFoundPage('missing')),
+    ]);
+    const fetch = jest.spyOn(transport, 'fetch');
+    setDefaultTransport(transport);
+
+    await findAccount(site, 'missing');
+    await findAccount(site, 'missing');
+
+    const baselineRequests = fetch.mock.calls.filter(([url]) => url === 'https://example.test/unclaimed');
+    expect(baselineRequests).toHaveLength(1);
+  });
+
+  it('keeps the result when there is no baseline', async () => {
+    // No recording for the unclaimed user name
+    setDefaultTransport(new ReplayTransport([siteExchange(site, 'missing', 200, softNotFoundPage('missing'))]));
+
+    const account = await findAccount(site, 'missing');
+    expect(account).toBeInstanceOf(RegisteredAccount);
+    expect(account).not.toBeInstanceOf(FailedAccount);
+  });
+
+  it('tries the baseline again after it fails', async () => {
+    const transport = new ReplayTransport([siteExchange(site, 'missing', 200, softNotFoundPage('missing'))]);
+    setDefaultTransport(transport);
+    expect(await findAccount(site, 'missing')).toBeInstanceOf(RegisteredAccount);
+
+    transport.recordings.push(siteExchange(site, 'unclaimed', 200, softNotFoundPage('unclaimed')));
+    expect(await findAccount(site, 'missing')).toBeInstanceOf(UnregisteredAccount);
+  });
+
+  it("doesn't pass one search's abort to others waiting on the same baseline", async () => {
+    const replay = new ReplayTransport([
+      siteExchange(site, 'missing', 200, softNotFoundPage('missing')),
+      siteExchange(site, 'unclaimed', 200, softNotFoundPage('unclaimed')),
+    ]);
+    const requested: string[] = [];
+    let answerBaseline: () => void;
+    const baselineAnswered = new Promise<void>(resolve => (answerBaseline = resolve));
+    const transport: Transport = {
+      name: 'slow baseline',
+      fetch: async (url, options) => {
+        requested.push(url);
+        if (url.endsWith('/unclaimed')) {
+          await baselineAnswered;
+        }
+        return replay.fetch(url, options);
+      },
+    };
+    setDefaultTransport(transport);
+
+    const controller = new AbortController();
+    const aborted = findAccount(site, 'missing', undefined, controller.signal);
+    const other = findAccount(site, 'missing');
+    while (requested.length < 3) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    controller.abort();
+    await expect(aborted).rejects.toHaveProperty('name', 'AbortError');
+
+    answerBaseline!();
+    expect(await other).toBeInstanceOf(UnregisteredAccount);
+    expect(requested.filter(url => url.endsWith('/unclaimed'))).toHaveLength(1);
+  });
+
+  it('is off by default', async () => {
+    const { request_head_only, ...defaultSite } = site;
+    expect(DEFAULT_FINGERPRINT_OPTIONS.enabled).toBe(false);
+
+    fingerprintCache.options.enabled = DEFAULT_FINGERPRINT_OPTIONS.enabled;
+    setDefaultTransport(new ReplayTransport([siteExchange(site, 'missing', 404, '', 'HEAD')]));
+    const missing = await findAccount(defaultSite, 'missing');
+    expect(missing.evidence!.method).toEqual('HEAD');
+  });
+
+  it('can be turned off', async () => {
+    fingerprintCache.options.enabled = false;
+    setDefaultTransport(
+      new ReplayTransport([
+        siteExchange(site, 'unclaimed', 200, softNotFoundPage('unclaimed')),
+        siteExchange(site, 'missing', 200, softNotFoundPage('missing')),
+      ]),
+    );
+
+    expect(await findAccount(site, 'missing')).toBeInstanceOf(RegisteredAccount);
+  });
+});
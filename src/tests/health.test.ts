@@ -0,0 +1,212 @@
+import PouchDB from 'pouchdb';
+import { DB_OPTIONS, DEFAULT_SETTINGS, getDb, resetDb, SearchSchema } from 'db';
+import { doMigrations } from 'db/migrations';
+import {
+  AccountType,
+  ClaimedAccount,
+  ReplayTransport,
+  Search,
+  SearchDefinition,
+  setDefaultTransport,
+  SiteHealthReport,
+  SiteHealthStatus,
+  validateSites,
+} from 'search';
+import { check, makeSite, siteExchange } from './util';
+
+const working = makeSite('working');
+const broken = makeSite('broken');
+
+beforeEach(async () => {
+  await resetDb();
+
+  setDefaultTransport(
+    new ReplayTransport([
+      siteExchange(working, 'claimed', 200, '', 'HEAD'),
+      siteExchange(working, 'unclaimed', 404, '', 'HEAD'),
+      // Says everything exists
+      siteExchange(broken, 'claimed', 200, '', 'HEAD'),
+      siteExchange(broken, 'unclaimed', 200, '', 'HEAD'),
+    ]),
+  );
+});
+
+afterEach(() => {
+  setDefaultTransport(null);
+});
+
+describe('validateSites()', () => {
+  it('checks the claimed and unclaimed user names', async () => {
+    const report = await validateSites({ sites: [working, broken] });
+
+    expect(report.checkedAt).not.toBeNull();
+    expect(report.sites.working).toMatchObject({
+      status: SiteHealthStatus.PASS,
+      claimed: { userName: 'claimed', passed: true, result: AccountType.REGISTERED },
+      unclaimed: { userName: 'unclaimed', passed: true, result: AccountType.UNREGISTERED },
+      consecutiveFailures: 0,
+    });
+    expect(report.sites.working.claimed.latency).toEqual(expect.any(Number));
+
+    expect(report.sites.broken).toMatchObject({
+      status: SiteHealthStatus.FAIL,
+      claimed: { passed: true },
+      unclaimed: { passed: false, result: AccountType.REGISTERED },
+    });
+    expect(report.failing).toEqual(['broken']);
+  });
+
+  it('records failed requests', async () => {
+    const unreachable = makeSite('unreachable');
+    const report = await validateSites({ sites: [unreachable] });
+
+    expect(report.sites.unreachable.claimed).toMatchObject({ passed: false, result: AccountType.FAILED });
+    expect(report.sites.unreachable.claimed.reason).toContain('No recording');
+  });
+
+  it('records probes that throw as failed checks', async () => {
+    const dropped = makeSite('dropped', { errorType: 'message', errorMsg: 'Not Found' });
+    const replay = new ReplayTransport([
+      siteExchange(working, 'claimed', 200, '', 'HEAD'),
+      siteExchange(working, 'unclaimed', 404, '', 'HEAD'),
+      siteExchange(dropped, 'claimed', 200, 'Profile'),
+      siteExchange(dropped, 'unclaimed', 200, 'Not Found'),
+    ]);
+    setDefaultTransport({
+      name: 'dropped connection',
+      fetch: async (url, options) => {
+        const response = await replay.fetch(url, options);
+        if (url === 'https://dropped.test/claimed') {
+          return {
+            ...response,
+            text: async () => Promise.reject(new Error('Connection reset while reading the body')),
+          };
+        }
+        return response;
+      },
+    });
+
+    await validateSites({ sites: [working, dropped] });
+
+    SiteHealthReport.cache.clear();
+    const report = await SiteHealthReport.load();
+    expect(report.sites.working.status).toEqual(SiteHealthStatus.PASS);
+    expect(report.sites.dropped.claimed).toMatchObject({ passed: false, result: AccountType.FAILED, latency: null });
+    expect(report.sites.dropped.claimed.reason).toContain('Connection reset');
+    expect(report.sites.dropped.unclaimed.passed).toBe(true);
+  });
+
+  it('saves the report', async () => {
+    const report = await validateSites({ sites: [working, broken] });
+
+    SiteHealthReport.cache.clear();
+    const loaded = await SiteHealthReport.load();
+
+    expect(loaded).not.toBe(report);
+    expect(loaded.serialize()).toEqual(report.serialize());
+    expect(loaded.sites.working.checkedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('site health report', () => {
+  it('marks sites with mixed results as flaky', () => {
+    const report = new SiteHealthReport();
+
+    report.record(working, check(true), check(true));
+    expect(report.sites.working.status).toEqual(SiteHealthStatus.PASS);
+
+    report.record(working, check(true), check(false));
+    expect(report.sites.working.status).toEqual(SiteHealthStatus.FLAKY);
+    expect(report.flaky).toEqual(['working']);
+
+    report.record(working, check(true), check(true));
+    expect(report.sites.working.status).toEqual(SiteHealthStatus.FLAKY);
+    expect(report.sites.working.history).toEqual([true, false, true]);
+  });
+
+  it('excludes sites that fail repeatedly only when asked', () => {
+    const report = new SiteHealthReport();
+    report.failureThreshold = 2;
+
+    report.record(broken, check(false), check(false));
+    report.record(broken, check(false), check(false));
+    expect(report.sites.broken.consecutiveFailures).toEqual(2);
+    expect(report.isExcluded('broken')).toBe(false);
+
+    report.excludeFailing = true;
+    expect(report.isExcluded('broken')).toBe(true);
+
+    report.record(broken, check(true), check(true));
+    expect(report.isExcluded('broken')).toBe(false);
+  });
+
+  it('keeps excluded sites out of searches', async () => {
+    const report = await SiteHealthReport.load();
+    report.excludeFailing = true;
+    report.failureThreshold = 1;
+    await validateSites({ sites: [working, broken] });
+
+    const definition = new SearchDefinition(undefined, []);
+    definition.includedSites = [working, broken];
+    definition.userNames.push('claimed');
+    const search = await definition.new();
+    await search.start();
+
+    expect(search.excludedSites).toEqual([broken]);
+    expect(search.results.map(account => account.site.name)).toEqual(['working']);
+    expect(search.progress).toEqual(100);
+  });
+
+  it('keeps the exclusions when the search is loaded again', async () => {
+    const report = await SiteHealthReport.load();
+    report.excludeFailing = true;
+    report.failureThreshold = 1;
+    await validateSites({ sites: [working, broken] });
+
+    const definition = new SearchDefinition(undefined, []);
+    definition.includedSites = [working, broken];
+    definition.userNames.push('claimed');
+    const search = await definition.new();
+    await search.start();
+    expect(search.excludedSiteNames).toEqual(['broken']);
+
+    Search.cache.clear();
+    const db = await getDb();
+    const loaded = await Search.deserialize(await db.get<SearchSchema>(search.id));
+    expect(loaded.excludedSites).toEqual([broken]);
+    expect(loaded.progress).toEqual(100);
+  });
+
+  it("doesn't count accounts on excluded sites toward progress", async () => {
+    const report = await SiteHealthReport.load();
+    report.excludeFailing = true;
+    report.failureThreshold = 1;
+    await validateSites({ sites: [working, broken] });
+    await new ClaimedAccount(broken, 'claimed').save();
+
+    const definition = new SearchDefinition(undefined, []);
+    definition.includedSites = [working, broken];
+    definition.userNames.push('claimed');
+    const search = await definition.new();
+    await search.start();
+
+    expect(search.results.map(account => account.site.name)).toEqual(['working']);
+    expect(search.progressDetails).toMatchObject({ completed: 1, total: 1, percent: 100 });
+  });
+
+  it('is added to existing searches by migration', async () => {
+    const rawDb = new PouchDB('health.test.ts.migration', DB_OPTIONS);
+    await rawDb.put({ ...DEFAULT_SETTINGS, version: '0.0.7' });
+
+    // Not saved, so the documents don't have a revision yet
+    const search = new Search(new SearchDefinition(undefined, []));
+    const { excludedSiteNames, ...oldSearch } = search.serialize();
+    await rawDb.put(search.definition.serialize());
+    await rawDb.put(oldSearch);
+
+    await doMigrations(rawDb);
+
+    const searchDoc = await rawDb.get<SearchSchema>(search.id);
+    expect(searchDoc.excludedSiteNames).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { NodeFetchTransport, RecordedExchange, RecordingTransport, ReplayTransport, setDefaultTransport } from 'search';
+
+/**
+ * Set `TRACE_FIXTURES=record` to send real requests and overwrite the fixtures.
+ * Otherwise requests are answered from the fixtures and nothing touches the network.
+ */
+export const isRecording = process.env.TRACE_FIXTURES === 'record';
+
+const fixturePath = (name: string) => path.join(__dirname, 'fixtures', 'http', `${name}.json`);
+
+/**
+ * Answer every request in the current test file from `fixtures/http/<name>.json`.
+ *
+ * Replay is strict: each recording answers one request, in the order they were recorded.
+ * A request without a recording fails the test that sent it, even though `findAccount()`
+ * turns the error into a `FailedAccount`. Recordings that are never requested fail the file.
+ *
+ * When recording, requests go to the real sites and the file is written after the last test.
+ */
+export const useHttpFixture = (name: string) => {
+  let recorder: RecordingTransport | null = null;
+  let replayer: ReplayTransport | null = null;
+
+  beforeAll(() => {
+    if (isRecording) {
+      recorder = new RecordingTransport(new NodeFetchTransport());
+      setDefaultTransport(recorder);
+    } else {
+      const recordings: RecordedExchange[] = JSON.parse(fs.readFileSync(fixturePath(name), 'utf8'));
+      replayer = new ReplayTransport(recordings, { strict: true });
+      setDefaultTransport(replayer);
+    }
+  });
+
+  afterEach(() => {
+    if (replayer) {
+      const misses = replayer.misses;
+      replayer.misses = [];
+      expect(misses).toEqual([]);
+    }
+  });
+
+  afterAll(() => {
+    setDefaultTransport(null);
+
+    if (replayer) {
+      expect(replayer.unused.map(recording => recording.request)).toEqual([]);
+    }
+
+    if (recorder) {
+      fs.mkdirSync(path.dirname(fixturePath(name)), { recursive: true });
+      fs.writeFileSync(fixturePath(name), JSON.stringify(recorder.recordings, null, 2) + '\n');
+    }
+  });
+};
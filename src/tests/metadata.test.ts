@@ -0,0 +1,80 @@
+import { extractProfileMetadata } from 'search';
+
+const PAGE_URL = 'https://example.test/jane';
+
+describe('Profile metadata', () => {
+  it('reads OpenGraph tags', () => {
+    const html = `
+      <html><head>
+        <meta property="og:title" content="Jane Doe" />
+        <meta property="og:image" content="/avatars/jane.png">
+        <meta property="og:description" content="Writes code &amp; takes photos">
+        <meta property="og:locality" content="Lafayette, IN">
+      </head></html>`;
+
+    expect(extractProfileMetadata(html, PAGE_URL)).toEqual({
+      displayName: 'Jane Doe',
+      avatarUrl: 'https://example.test/avatars/jane.png',
+      bio: 'Writes code & takes photos',
+      location: 'Lafayette, IN',
+      website: null,
+    });
+  });
+
+  it('falls back to Twitter cards and plain tags', () => {
+    const html = `
+      <title>
+        Jane (@jane) | Example
+      </title>
+      <meta name='twitter:image' content='https://cdn.example.test/jane.jpg'>
+      <meta name="description" content="Hello there">
+      <link rel="me" href="https://jane.example.test">`;
+
+    expect(extractProfileMetadata(html, PAGE_URL)).toEqual({
+      displayName: 'Jane (@jane) | Example',
+      avatarUrl: 'https://cdn.example.test/jane.jpg',
+      bio: 'Hello there',
+      location: null,
+      website: 'https://jane.example.test/',
+    });
+  });
+
+  it('prefers JSON-LD', () => {
+    const person = {
+      '@context': 'https://schema.org',
+      '@type': 'ProfilePage',
+      mainEntity: {
+        '@type': 'Person',
+        name: 'Jane Q. Doe',
+        image: { '@type': 'ImageObject', url: 'https://example.test/jane-ld.png' },
+        description: 'From JSON-LD',
+        homeLocation: { '@type': 'Place', name: 'Indiana' },
+        url: PAGE_URL,
+        sameAs: ['https://blog.example.test/', 'https://other.example.test/'],
+      },
+    };
+    const html = `
+      <meta property="og:title" content="Jane Doe">
+      <script type="application/ld+json">{ not json }</script>
+      <script type="application/ld+json">${JSON.stringify(person)}</script>`;
+
+    expect(extractProfileMetadata(html, PAGE_URL)).toEqual({
+      displayName: 'Jane Q. Doe',
+      avatarUrl: 'https://example.test/jane-ld.png',
+      bio: 'From JSON-LD',
+      location: 'Indiana',
+      website: 'https://blog.example.test/',
+    });
+  });
+
+  it('cuts off long bios', () => {
+    const html = `<meta name="description" content="${'a'.repeat(1000)}">`;
+
+    expect(extractProfileMetadata(html, PAGE_URL)!.bio!.length).toEqual(500);
+  });
+
+  it('returns null when nothing is found', () => {
+    expect(extractProfileMetadata('<html><body>Nothing here</body></html>', PAGE_URL)).toBeNull();
+    expect(extractProfileMetadata('', PAGE_URL)).toBeNull();
+  });
+});
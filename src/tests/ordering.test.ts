@@ -0,0 +1,230 @@
+import PouchDB from 'pouchdb';
+import { DB_OPTIONS, DEFAULT_SETTINGS, getDb, resetDb, SearchDefinitionSchema, SearchSchema } from 'db';
+import { doMigrations } from 'db/migrations';
+import {
+  ClaimedAccount,
+  orderSites,
+  ReplayTransport,
+  Search,
+  SearchDefinition,
+  SearchState,
+  setDefaultTransport,
+  SiteHealthReport,
+  SitePriorityEngine,
+  tagPrioritizer,
+} from 'search';
+import { Site } from 'sites';
+import { check, makeSite, newSearch, siteExchange } from './util';
+
+const first = makeSite('first', { tags: ['Social'] });
+const second = makeSite('second', { tags: ['Developers'] });
+const third = makeSite('third', { tags: ['Gaming'] });
+
+const names = (sites: Site[]) => sites.map(site => site.name);
+
+beforeEach(async () => {
+  await resetDb();
+  setDefaultTransport(new ReplayTransport([]));
+});
+
+afterEach(() => {
+  setDefaultTransport(null);
+});
+
+describe('orderSites()', () => {
+  it('keeps the definition order without any history', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    expect(names(await orderSites(search))).toEqual(['first', 'second', 'third']);
+  });
+
+  it('puts pinned sites first', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    search.definition.pinnedSites.push('third', 'not a site', 'second');
+    expect(names(await orderSites(search))).toEqual(['third', 'second', 'first']);
+  });
+
+  it('prefers sites with prioritized tags', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    search.definition.tagPriority.push('Gaming', 'Developers');
+    expect(names(await orderSites(search))).toEqual(['third', 'second', 'first']);
+  });
+
+  it('prefers healthy sites', async () => {
+    const report = await SiteHealthReport.load();
+    report.record(first, check(false), check(false));
+    report.record(third, check(true), check(true));
+    await report.save();
+
+    const search = await newSearch([first, second, third], ['jane']);
+    expect(names(await orderSites(search))).toEqual(['third', 'second', 'first']);
+  });
+
+  it('prefers sites where the user names were found before', async () => {
+    const previous = await newSearch([first, second, third], ['jane']);
+    previous.transport = new ReplayTransport([
+      siteExchange(first, 'jane', 404, '', 'HEAD'),
+      siteExchange(second, 'jane', 404, '', 'HEAD'),
+      siteExchange(third, 'jane', 200, '', 'HEAD'),
+    ]);
+    await previous.start();
+    expect(previous.state).toEqual(SearchState.COMPLETED);
+
+    const search = await previous.definition.new();
+    expect(names(await orderSites(search))).toEqual(['third', 'first', 'second']);
+  });
+
+  it('counts claimed accounts as hits', async () => {
+    await new ClaimedAccount(second, 'jane').save();
+
+    const search = await newSearch([first, second, third], ['jane']);
+    expect(names(await orderSites(search))).toEqual(['second', 'first', 'third']);
+  });
+
+  it('can be turned off', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    search.definition.pinnedSites.push('third');
+    search.definition.prioritizeSites = false;
+    expect(names(await orderSites(search))).toEqual(['first', 'second', 'third']);
+  });
+});
+
+describe('SitePriorityEngine', () => {
+  it('replaces and removes prioritizers by name', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    const context = { search, hitRates: {}, health: new SiteHealthReport() };
+    const engine = new SitePriorityEngine([]);
+
+    engine.add({ name: 'last', weight: 1, score: site => (site === third ? 1 : null) });
+    expect(names(engine.order(search.definition.includedSites, context))).toEqual(['third', 'first', 'second']);
+
+    engine.add({ name: 'last', weight: -1, score: site => (site === third ? 1 : null) });
+    expect(names(engine.order(search.definition.includedSites, context))).toEqual(['first', 'second', 'third']);
+
+    expect(engine.remove('last')).toBeTruthy();
+    expect(engine.remove('last')).toBeFalsy();
+    engine.add(tagPrioritizer);
+    expect(engine.prioritizers).toEqual([tagPrioritizer]);
+  });
+
+  it('skips prioritizers that throw', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    const context = { search, hitRates: {}, health: new SiteHealthReport() };
+    const engine = new SitePriorityEngine([
+      {
+        name: 'broken',
+        weight: 1,
+        score: () => {
+          throw new Error('Broken');
+        },
+      },
+    ]);
+
+    expect(engine.score(first, context)).toEqual(0);
+  });
+});
+
+describe('Search site order', () => {
+  it('is chosen when the search starts', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    search.definition.pinnedSites.push('third');
+    search.transport = new ReplayTransport([
+      siteExchange(first, 'jane', 404, '', 'HEAD'),
+      siteExchange(second, 'jane', 404, '', 'HEAD'),
+      siteExchange(third, 'jane', 404, '', 'HEAD'),
+    ]);
+
+    const started: string[] = [];
+    search.events.on('siteStarted', ({ site }) => started.push(site.name));
+    await search.start();
+
+    expect(search.siteOrder).toEqual(['third', 'first', 'second']);
+    expect(names(search.sites)).toEqual(['third', 'first', 'second']);
+    expect(started[0]).toEqual('third');
+  });
+
+  it('is kept when resuming', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    search.siteOrder = ['third', 'second', 'first'];
+    search.lastSiteIndex = 2;
+    search.state = SearchState.PAUSED;
+    search.transport = new ReplayTransport([siteExchange(first, 'jane', 200, '', 'HEAD')]);
+
+    // The pinned site would go first in a new order
+    search.definition.pinnedSites.push('second');
+
+    // Only the last site is left to search
+    await search.resume();
+    expect(search.siteOrder).toEqual(['third', 'second', 'first']);
+    expect(Object.keys(search.resultsMap)).toEqual(['first']);
+  });
+
+  it('keeps the resume index when a site is removed', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    search.siteOrder = ['third', 'second', 'first'];
+    search.lastSiteIndex = 2;
+    search.state = SearchState.PAUSED;
+    search.transport = new ReplayTransport([siteExchange(first, 'jane', 200, '', 'HEAD')]);
+
+    search.definition.includedSites = [first, third];
+    expect(search.siteSlots).toEqual([third, null, first]);
+    expect(names(search.sites)).toEqual(['third', 'first']);
+
+    await search.resume();
+    expect(Object.keys(search.resultsMap)).toEqual(['first']);
+  });
+
+  it('is saved with the search', async () => {
+    const search = await newSearch([first, second, third], ['jane']);
+    search.siteOrder = ['second', 'first', 'third'];
+
+    await search.save();
+    expect(search.serialize().siteOrder).toEqual(['second', 'first', 'third']);
+
+    Search.cache.clear();
+    const db = await getDb();
+    const deserialized = await Search.deserialize(await db.get<SearchSchema>(search.id));
+    expect(deserialized.siteOrder).toEqual(['second', 'first', 'third']);
+    expect(names(deserialized.sites)).toEqual(['second', 'first', 'third']);
+  });
+
+  it('puts sites added since the order was chosen last', async () => {
+    const search = await newSearch([first, second], ['jane']);
+    search.siteOrder = ['second', 'first'];
+    search.definition.includedSites.push(third);
+    expect(names(search.sites)).toEqual(['second', 'first', 'third']);
+  });
+
+  it('has defaults on definitions that missed the migration', async () => {
+    const definition = new SearchDefinition(undefined, []);
+    const { prioritizeSites, pinnedSites, tagPriority, ...oldDefinition } = definition.serialize();
+
+    SearchDefinition.cache.clear();
+    const deserialized = await SearchDefinition.deserialize(oldDefinition as SearchDefinitionSchema);
+    expect(deserialized.prioritizeSites).toBe(true);
+    expect(deserialized.pinnedSites).toEqual([]);
+    expect(deserialized.tagPriority).toEqual([]);
+    expect(await orderSites(await deserialized.new())).toEqual(deserialized.includedSites);
+  });
+
+  it('is added to existing definitions and searches by migration', async () => {
+    const rawDb = new PouchDB('ordering.test.ts.migration', DB_OPTIONS);
+    await rawDb.put({ ...DEFAULT_SETTINGS, version: '0.1.0' });
+
+    // Not saved, so the documents don't have a revision yet
+    const search = new Search(new SearchDefinition(undefined, []));
+    const { prioritizeSites, pinnedSites, tagPriority, ...oldDefinition } = search.definition.serialize();
+    const { siteOrder, ...oldSearch } = search.serialize();
+    await rawDb.put(oldDefinition);
+    await rawDb.put(oldSearch);
+
+    await doMigrations(rawDb);
+
+    const definitionDoc = await rawDb.get<SearchDefinitionSchema>(search.definition.id);
+    expect(definitionDoc.prioritizeSites).toBe(true);
+    expect(definitionDoc.pinnedSites).toEqual([]);
+    expect(definitionDoc.tagPriority).toEqual([]);
+
+    const searchDoc = await rawDb.get<SearchSchema>(search.id);
+    expect(searchDoc.siteOrder).toBeNull();
+  });
+});
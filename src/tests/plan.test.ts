@@ -0,0 +1,166 @@
+import { resetDb } from 'db';
+import {
+  DEFAULT_PERSONA_ID,
+  DEFAULT_PROBE_LATENCY,
+  getProbeHost,
+  ReplayTransport,
+  SearchPlanSkipReason,
+  SearchState,
+  setDefaultTransport,
+  SiteHealthReport,
+} from 'search';
+import { check, makeSite, newSearch, siteExchange } from './util';
+
+const statusSite = makeSite('status');
+const messageSite = makeSite('message', { errorType: 'message', errorMsg: 'Not Found' });
+const getSite = makeSite('get', { request_head_only: false });
+
+/** Any request fails the test */
+const transport = new ReplayTransport([]);
+
+beforeEach(async () => {
+  await resetDb();
+  setDefaultTransport(transport);
+});
+
+afterEach(() => {
+  setDefaultTransport(null);
+});
+
+describe('Search.plan()', () => {
+  it('lists each probe with the method findAccount() would use', async () => {
+    const search = await newSearch([statusSite, messageSite, getSite], ['jane']);
+    const plan = await search.plan();
+
+    expect(plan.skips).toEqual([]);
+    expect(plan.probes.map(probe => [probe.site.name, probe.userName, probe.method, probe.url])).toEqual([
+      ['status', 'jane', 'HEAD', 'https://status.test/jane'],
+      ['message', 'jane', 'GET', 'https://message.test/jane'],
+      ['get', 'jane', 'GET', 'https://get.test/jane'],
+    ]);
+    expect(plan.probes[0]).toMatchObject({ email: null, personaId: DEFAULT_PERSONA_ID, host: 'status.test' });
+  });
+
+  it('uses GET when the persona has names to look for', async () => {
+    const search = await newSearch([statusSite], ['jane']);
+    const work = search.definition.addPersona('Work');
+    work.userNames.push('jdoe');
+    work.lastNames.push('Doe');
+
+    const plan = await search.plan();
+    expect(plan.probes.map(probe => [probe.userName, probe.method, probe.personaId])).toEqual([
+      ['jane', 'HEAD', DEFAULT_PERSONA_ID],
+      ['jdoe', 'GET', work.id],
+    ]);
+  });
+
+  it('plans email probes only on sites that support them', async () => {
+    const emailSite = makeSite('email', {
+      emailProbe: { url: 'https://email.test/api?email={}', errorType: 'json_api', jsonPath: 'exists' },
+    });
+    const search = await newSearch([statusSite, emailSite], []);
+    search.definition.emails.push('jane+test@example.test');
+
+    const plan = await search.plan();
+    expect(plan.probes).toHaveLength(1);
+    expect(plan.probes[0]).toMatchObject({
+      userName: 'jane+test@example.test',
+      email: 'jane+test@example.test',
+      method: 'GET',
+      url: 'https://email.test/api?email=jane%2Btest%40example.test',
+    });
+  });
+
+  it('groups email probes by the host the email probe is sent to', async () => {
+    const emailSite = makeSite('email', {
+      emailProbe: { url: 'https://api.lookup.test/email?q={}', errorType: 'json_api', jsonPath: 'exists' },
+    });
+    expect(getProbeHost(emailSite, 'jane')).toEqual('email.test');
+    expect(getProbeHost(emailSite, 'jane', 'jane@example.test')).toEqual('api.lookup.test');
+
+    const search = await newSearch([emailSite], ['jane']);
+    search.definition.emails.push('jane@example.test');
+
+    const plan = await search.plan();
+    expect(plan.probes.map(probe => [probe.userName, probe.host])).toEqual([
+      ['jane', 'email.test'],
+      ['jane@example.test', 'api.lookup.test'],
+    ]);
+  });
+
+  it('lists omitted sites and invalid user names as skips', async () => {
+    const omitted = makeSite('omitted', { omit: true });
+    const strict = makeSite('strict', { regexCheck: '^[a-z]+$' });
+    const search = await newSearch([omitted, strict], ['jane', 'jane.doe']);
+
+    const plan = await search.plan();
+    expect(plan.probes.map(probe => [probe.site.name, probe.userName])).toEqual([['strict', 'jane']]);
+    // Omitted sites are ordered last
+    expect(plan.skips.map(skip => [skip.site.name, skip.userName, skip.reason, skip.detail])).toEqual([
+      ['strict', 'jane.doe', SearchPlanSkipReason.INVALID, `'jane.doe' does not match ^[a-z]+$ on strict`],
+      ['omitted', 'jane', SearchPlanSkipReason.OMITTED, null],
+      ['omitted', 'jane.doe', SearchPlanSkipReason.OMITTED, null],
+    ]);
+  });
+
+  it('skips sites excluded by health checks', async () => {
+    const report = await SiteHealthReport.load();
+    report.excludeFailing = true;
+    report.failureThreshold = 1;
+    report.record(statusSite, check(false), check(true));
+    await report.save();
+
+    const search = await newSearch([statusSite, getSite], ['jane']);
+    const plan = await search.plan();
+    expect(plan.probes.map(probe => probe.site.name)).toEqual(['get']);
+    expect(plan.skips.map(skip => [skip.site.name, skip.reason])).toEqual([['status', SearchPlanSkipReason.EXCLUDED]]);
+  });
+
+  it('skips results that the search already has', async () => {
+    const search = await newSearch([statusSite], ['jane', 'bob']);
+    search.transport = new ReplayTransport([
+      siteExchange(statusSite, 'jane', 200, '', 'HEAD'),
+      siteExchange(statusSite, 'bob', 404, '', 'HEAD'),
+    ]);
+    await search.start();
+    expect(search.state).toEqual(SearchState.COMPLETED);
+
+    const plan = await search.plan();
+    expect(plan.probes).toEqual([]);
+    expect(plan.skips.map(skip => [skip.userName, skip.reason])).toEqual([
+      ['jane', SearchPlanSkipReason.EXISTING_RESULT],
+      ['bob', SearchPlanSkipReason.EXISTING_RESULT],
+    ]);
+    expect(plan.estimatedDuration).toEqual(0);
+  });
+
+  it('estimates the duration from past latency and concurrency', async () => {
+    const report = await SiteHealthReport.load();
+    report.record(statusSite, check(true, 100), check(true, 300));
+    await report.save();
+
+    const search = await newSearch([statusSite, getSite], ['a', 'b', 'c', 'd']);
+    search.executorOptions = { concurrency: 8, perHostConcurrency: 2 };
+
+    const plan = await search.plan();
+    expect(plan.probes.filter(probe => probe.site === statusSite).map(probe => probe.latency)).toEqual([
+      200,
+      200,
+      200,
+      200,
+    ]);
+    expect(plan.probes.filter(probe => probe.site === getSite).map(probe => probe.latency)).toEqual([
+      DEFAULT_PROBE_LATENCY,
+      DEFAULT_PROBE_LATENCY,
+      DEFAULT_PROBE_LATENCY,
+      DEFAULT_PROBE_LATENCY,
+    ]);
+
+    // The busiest host is slower than the global limit: 4 * 1000 / 2
+    expect(plan.estimatedDuration).toEqual(2000);
+
+    search.executorOptions = { concurrency: 1, perHostConcurrency: 2 };
+    // 4 * 200 + 4 * 1000
+    expect((await search.plan()).estimatedDuration).toEqual(4800);
+  });
+});
@@ -0,0 +1,10 @@
+import { DEFAULT_RATE_LIMIT_OPTIONS, rateLimiter } from 'search';
+
+// Retry failed requests right away, so that tests with unreachable sites don't wait on backoff
+beforeEach(() => {
+  rateLimiter.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, baseDelay: 0 };
+});
+
+afterEach(() => {
+  rateLimiter.reset();
+});
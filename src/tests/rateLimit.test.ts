@@ -0,0 +1,188 @@
+import { abortError, parseRetryAfter, RateLimiter, RateLimitedResponse } from 'search';
+
+const URL = 'https://example.test/user';
+
+const makeResponse = (status: number, headers: { [name: string]: string } = {}): RateLimitedResponse => ({
+  status,
+  headers: {
+    get: (name: string) => headers[name] || null,
+  },
+});
+
+describe('Retry-After', () => {
+  it('parses seconds', () => {
+    expect(parseRetryAfter('120')).toEqual(120 * 1000);
+  });
+
+  it('parses an HTTP date', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toEqual(30 * 1000);
+  });
+
+  it('does not return a negative delay for a past date', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toEqual(0);
+  });
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('not a date')).toBeNull();
+  });
+});
+
+describe('Rate limiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter({ maxRetries: 2, baseDelay: 5, maxDelay: 50, retryStatuses: [429, 503] });
+  });
+
+  it('passes through successful responses', async () => {
+    const send = jest.fn(async () => makeResponse(200));
+
+    const response = await limiter.request(URL, send);
+
+    expect(response.status).toEqual(200);
+    expect(send).toBeCalledTimes(1);
+  });
+
+  it('does not retry non-transient failures', async () => {
+    const send = jest.fn(async () => makeResponse(404));
+
+    const response = await limiter.request(URL, send);
+
+    expect(response.status).toEqual(404);
+    expect(send).toBeCalledTimes(1);
+  });
+
+  it('retries transient failures', async () => {
+    const responses = [makeResponse(429), makeResponse(503), makeResponse(200)];
+    const send = jest.fn(async () => responses.shift() as RateLimitedResponse);
+
+    const response = await limiter.request(URL, send);
+
+    expect(response.status).toEqual(200);
+    expect(send).toBeCalledTimes(3);
+  });
+
+  it('reads the body of transient failures before retrying', async () => {
+    const text = jest.fn(async () => 'Slow down');
+    const responses = [{ ...makeResponse(503), text }, makeResponse(200)];
+    const send = jest.fn(async () => responses.shift() as RateLimitedResponse);
+
+    await limiter.request(URL, send);
+
+    expect(text).toBeCalledTimes(1);
+    expect(send).toBeCalledTimes(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const send = jest.fn(async () => makeResponse(429));
+
+    await expect(limiter.request(URL, send)).rejects.toThrow('HTTP 429');
+    expect(send).toBeCalledTimes(3);
+  });
+
+  it('retries network errors and timeouts', async () => {
+    const failures = [new Error('getaddrinfo ENOTFOUND example.test'), new Error('Request timed out after 10 seconds')];
+    const send = jest.fn(async () => {
+      const failure = failures.shift();
+      if (failure) {
+        throw failure;
+      }
+      return makeResponse(200);
+    });
+
+    const response = await limiter.request(URL, send);
+
+    expect(response.status).toEqual(200);
+    expect(send).toBeCalledTimes(3);
+    expect(limiter.getDelay(URL)).toEqual(0);
+  });
+
+  it('gives up on network errors after the configured number of retries', async () => {
+    const send = jest.fn(async () => {
+      throw new Error('socket hang up');
+    });
+
+    await expect(limiter.request(URL, send)).rejects.toThrow('socket hang up');
+    expect(send).toBeCalledTimes(3);
+    expect(limiter.getDelay(URL)).toBeGreaterThan(0);
+  });
+
+  it('does not retry requests that were aborted', async () => {
+    const controller = new AbortController();
+    const send = jest.fn(async () => {
+      controller.abort();
+      throw abortError();
+    });
+
+    await expect(limiter.request(URL, send, controller.signal)).rejects.toHaveProperty('name', 'AbortError');
+    expect(send).toBeCalledTimes(1);
+  });
+
+  it('stops waiting when aborted', async () => {
+    limiter.options.baseDelay = 10000;
+    limiter.options.maxDelay = 10000;
+    const send = jest.fn(async () => makeResponse(429));
+    const controller = new AbortController();
+
+    const request = limiter.request(URL, send, controller.signal);
+    controller.abort();
+
+    await expect(request).rejects.toHaveProperty('name', 'AbortError');
+    expect(send).toBeCalledTimes(1);
+  });
+
+  it('backs off exponentially', async () => {
+    limiter.options.maxRetries = 0;
+
+    await expect(limiter.request(URL, async () => makeResponse(503))).rejects.toThrow();
+    const firstDelay = limiter.getDelay(URL);
+
+    await expect(limiter.request(URL, async () => makeResponse(503))).rejects.toThrow();
+    const secondDelay = limiter.getDelay(URL);
+
+    expect(firstDelay).toBeLessThanOrEqual(5);
+    expect(secondDelay).toBeGreaterThan(5);
+    expect(secondDelay).toBeLessThanOrEqual(10);
+  });
+
+  it('honors Retry-After', async () => {
+    limiter.options.maxRetries = 0;
+
+    await expect(limiter.request(URL, async () => makeResponse(429, { 'Retry-After': '0' }))).rejects.toThrow();
+
+    expect(limiter.getDelay(URL)).toEqual(0);
+  });
+
+  it('caps delays at maxDelay', async () => {
+    limiter.options.maxRetries = 0;
+
+    await expect(limiter.request(URL, async () => makeResponse(429, { 'Retry-After': '3600' }))).rejects.toThrow();
+
+    expect(limiter.getDelay(URL)).toBeLessThanOrEqual(50);
+    expect(limiter.getDelay(URL)).toBeGreaterThan(0);
+  });
+
+  it('tracks each domain separately', async () => {
+    limiter.options.maxRetries = 0;
+
+    await expect(limiter.request(URL, async () => makeResponse(429, { 'Retry-After': '1' }))).rejects.toThrow();
+
+    expect(limiter.getDelay(URL)).toBeGreaterThan(0);
+    expect(limiter.getDelay('https://other.test/user')).toEqual(0);
+  });
+
+  it('resets the failure count after a success', async () => {
+    const responses = [makeResponse(429), makeResponse(200), makeResponse(429), makeResponse(200)];
+    const send = jest.fn(async () => responses.shift() as RateLimitedResponse);
+
+    await limiter.request(URL, send);
+    await limiter.request(URL, send);
+
+    // Second failure should have used the base delay again
+    expect(limiter.getDelay(URL)).toBeLessThanOrEqual(5);
+  });
+});
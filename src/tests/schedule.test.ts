@@ -0,0 +1,267 @@
+import PouchDB from 'pouchdb';
+import { DB_OPTIONS, DEFAULT_SETTINGS, resetDb, SearchDefinitionSchema } from 'db';
+import { doMigrations } from 'db/migrations';
+import {
+  getNextCronRun,
+  getNextRun,
+  parseCron,
+  ScheduleFrequency,
+  Search,
+  SearchDefinition,
+  SearchScheduler,
+  SearchState,
+} from 'search';
+import { Site } from 'sites';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const unreachableSite: Site = {
+  name: 'Example',
+  url: 'https://example.test/{}',
+  urlMain: 'https://example.test',
+  errorType: 'status_code',
+  username_claimed: '',
+  username_unclaimed: '',
+  tags: [],
+};
+
+const waitForSearch = async (search: Search) => {
+  while (search.state === SearchState.CREATED || search.state === SearchState.IN_PROGRESS) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('cron', () => {
+  // Monday, January 4th 2021 08:30 local time
+  const monday = new Date(2021, 0, 4, 8, 30);
+
+  it('finds the next matching minute', () => {
+    expect(getNextCronRun(parseCron('0 9 * * 1-5'), monday)).toEqual(new Date(2021, 0, 4, 9, 0));
+    expect(getNextCronRun(parseCron('*/15 * * * *'), monday)).toEqual(new Date(2021, 0, 4, 8, 45));
+    expect(getNextCronRun(parseCron('0 0 1 * *'), monday)).toEqual(new Date(2021, 1, 1, 0, 0));
+  });
+
+  it('is strictly after the given time', () => {
+    expect(getNextCronRun(parseCron('30 8 * * *'), monday)).toEqual(new Date(2021, 0, 5, 8, 30));
+  });
+
+  it('skips to the next matching weekday', () => {
+    const friday = new Date(2021, 0, 8, 9, 0);
+    expect(getNextCronRun(parseCron('0 9 * * 1-5'), friday)).toEqual(new Date(2021, 0, 11, 9, 0));
+    expect(getNextCronRun(parseCron('0 9 * * 7'), friday)).toEqual(new Date(2021, 0, 10, 9, 0));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // Friday the 8th comes before the 13th
+    expect(getNextCronRun(parseCron('0 0 13 * 5'), monday)).toEqual(new Date(2021, 0, 8, 0, 0));
+  });
+
+  it('rejects invalid expressions', () => {
+    for (const expression of [
+      '* * *',
+      '60 * * * *',
+      '* 24 * * *',
+      '0 0 0 * *',
+      'a * * * *',
+      '*/0 * * * *',
+      '5-1 * * * *',
+    ]) {
+      expect(() => parseCron(expression)).toThrow();
+    }
+  });
+
+  it('throws if the expression never matches', () => {
+    expect(() => getNextCronRun(parseCron('0 0 30 2 *'), monday)).toThrow();
+  });
+});
+
+describe('search definition schedule', () => {
+  let definition: SearchDefinition;
+
+  beforeEach(() => {
+    definition = new SearchDefinition(undefined, []);
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+  });
+
+  it('has no next run without an enabled schedule', () => {
+    expect(definition.nextRunAt).toBeNull();
+
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: false };
+    expect(definition.nextRunAt).toBeNull();
+  });
+
+  it('counts from creation before the first run', () => {
+    definition.schedule = { frequency: ScheduleFrequency.WEEKLY, enabled: true };
+    expect(definition.nextRunAt).toEqual(new Date(definition.createdAt.getTime() + 7 * DAY_MS));
+  });
+
+  it('counts from the last run', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: true };
+
+    const search = await definition.new();
+    search.startedAt = new Date(2021, 0, 4, 8, 30);
+
+    expect(definition.nextRunAt).toEqual(new Date(2021, 0, 5, 8, 30));
+  });
+
+  it('uses the cron expression', () => {
+    const schedule = { frequency: ScheduleFrequency.CRON, cron: '0 9 * * *', enabled: true };
+    expect(getNextRun(schedule, new Date(2021, 0, 4, 8, 30))).toEqual(new Date(2021, 0, 4, 9, 0));
+  });
+
+  it('saves and restores the schedule', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.CRON, cron: '0 9 * * 1', enabled: true };
+    await definition.save();
+
+    SearchDefinition.cache.clear();
+    const [restored] = await SearchDefinition.loadAll();
+
+    expect(restored).not.toBe(definition);
+    expect(restored.schedule).toEqual(definition.schedule);
+  });
+
+  it('does not save an invalid schedule', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.CRON, cron: 'every day', enabled: true };
+    await expect(definition.save()).rejects.toThrow();
+
+    definition.schedule = { frequency: ScheduleFrequency.CRON, enabled: true };
+    await expect(definition.save()).rejects.toThrow();
+  });
+
+  it('is added to existing definitions by migration', async () => {
+    const rawDb = new PouchDB('schedule.test.ts', DB_OPTIONS);
+    await rawDb.put({ ...DEFAULT_SETTINGS, version: '0.0.5' });
+
+    const { schedule, ...oldDoc } = definition.serialize();
+    await rawDb.put(oldDoc);
+
+    await doMigrations(rawDb);
+
+    const doc = await rawDb.get<SearchDefinitionSchema>(definition.id);
+    expect(doc.schedule).toBeNull();
+  });
+});
+
+describe('search scheduler', () => {
+  let definition: SearchDefinition;
+  let scheduler: SearchScheduler;
+
+  beforeEach(async () => {
+    definition = new SearchDefinition(undefined, []);
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+    definition.createdAt = new Date(Date.now() - 2 * DAY_MS);
+    await definition.save();
+
+    scheduler = new SearchScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('ignores definitions without a schedule', async () => {
+    expect(await scheduler.check()).toHaveLength(0);
+    expect(definition.history).toHaveLength(0);
+  });
+
+  it('starts a run when due', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: true };
+
+    const emitted: Search[] = [];
+    scheduler.events.on('started', search => emitted.push(search));
+
+    const started = await scheduler.check();
+    expect(started).toHaveLength(1);
+    expect(emitted).toEqual(started);
+    expect(definition.history).toContain(started[0]);
+
+    await waitForSearch(started[0]);
+    expect(started[0].state).toEqual(SearchState.COMPLETED);
+
+    // Next run is a day after this one
+    expect(await scheduler.check()).toHaveLength(0);
+    expect(definition.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('does not start a run before it is due', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.WEEKLY, enabled: true };
+    expect(await scheduler.check()).toHaveLength(0);
+  });
+
+  it('skips overlapping runs', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: true };
+
+    const search = await definition.new();
+    search.startedAt = new Date(Date.now() - 2 * DAY_MS);
+    search.state = SearchState.IN_PROGRESS;
+
+    const skipped: SearchDefinition[] = [];
+    scheduler.events.on('skipped', skippedDefinition => skipped.push(skippedDefinition));
+
+    expect(await scheduler.check()).toHaveLength(0);
+    expect(skipped).toEqual([definition]);
+    expect(definition.history).toHaveLength(1);
+  });
+
+  it('catches up missed runs only once', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: true };
+
+    const search = await definition.new();
+    search.startedAt = new Date(Date.now() - 5 * DAY_MS);
+    search.state = SearchState.COMPLETED;
+
+    const started = await scheduler.check();
+    expect(started).toHaveLength(1);
+    expect(await scheduler.check()).toHaveLength(0);
+
+    await waitForSearch(started[0]);
+    expect(await scheduler.check()).toHaveLength(0);
+    expect(definition.history).toHaveLength(2);
+  });
+
+  it('emits runs that fail', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: true };
+    const error = new Error('Database is closed');
+    const start = jest.spyOn(Search.prototype, 'start').mockRejectedValueOnce(error);
+
+    const failed = new Promise<[Error, Search]>(resolve => {
+      scheduler.events.on('error', (e, search) => resolve([e, search]));
+    });
+    const started = await scheduler.check();
+
+    expect(await failed).toEqual([error, started[0]]);
+    start.mockRestore();
+  });
+
+  it('counts from the last run that started', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: true };
+
+    const created = await definition.new();
+    // Search IDs include the time they were created
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const completed = await definition.new();
+    completed.startedAt = new Date(Date.now() - 60 * 1000);
+    completed.state = SearchState.COMPLETED;
+
+    expect(created.startedAt).toBeNull();
+    expect(definition.lastRun).toBe(completed);
+    expect(await scheduler.check()).toHaveLength(0);
+  });
+
+  it('checks on an interval once started', async () => {
+    definition.schedule = { frequency: ScheduleFrequency.DAILY, enabled: true };
+
+    const started = await scheduler.start(10);
+    expect(started).toHaveLength(1);
+
+    await waitForSearch(started[0]);
+    scheduler.stop();
+    expect(definition.history).toHaveLength(1);
+  });
+});
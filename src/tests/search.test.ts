@@ -1,5 +1,34 @@
-import { resetDb } from 'db';
-import { FailedAccount, findAccount, Search, SearchDefinition, SearchState } from 'search';
+import PouchDB from 'pouchdb';
+import { DB_OPTIONS, DEFAULT_SETTINGS, getDb, resetDb, SearchDefinitionSchema, SearchSchema } from 'db';
+import { doMigrations } from 'db/migrations';
+import {
+  abortError,
+  AutoSearchAccount,
+  DEFAULT_PERSONA_ID,
+  diff,
+  FailedAccount,
+  findAccount,
+  findEmailAccount,
+  InvalidAccount,
+  RecordedExchange,
+  RegisteredAccount,
+  ReplayTransport,
+  Search,
+  SearchDefinition,
+  SearchExecutor,
+  SearchProgress,
+  SearchState,
+  SearchTask,
+  ThirdPartyAccount,
+  toAccountId,
+  toTransportResponse,
+  Transport,
+  TransportResponse,
+  UnregisteredAccount,
+  EtaEstimator,
+  expandUserNames,
+  VariantRule,
+} from 'search';
 import { Site, filterSitesByTags, supportedSites } from 'sites';
 import { checkSaveResponse } from './util';
 
@@ -8,6 +37,43 @@ const INVALID_SITE_NAMES = ['xxx not a site'];
 const VALID_TAG_NAMES = ['Developers'];
 const INVALID_TAG_NAMES = ['xxx not a tag'];
 
+const unreachableSite: Site = {
+  name: 'Example',
+  url: 'https://example.test/{}',
+  urlMain: 'https://example.test',
+  errorType: 'status_code',
+  username_claimed: '',
+  username_unclaimed: '',
+  tags: [],
+};
+
+const okResponse = (url: string): RecordedExchange['response'] => ({ status: 200, url, headers: {}, body: '' });
+
+/**
+ * Transport whose requests never finish unless they are aborted.
+ */
+class HangingTransport implements Transport {
+  public readonly name = 'hanging';
+  public requests = 0;
+  public aborted = 0;
+
+  public fetch(url: string, options: RequestInit) {
+    this.requests++;
+    return new Promise<TransportResponse>((resolve, reject) => {
+      options.signal?.addEventListener('abort', () => {
+        this.aborted++;
+        reject(abortError());
+      });
+    });
+  }
+
+  public async waitForRequests(count: number) {
+    while (this.requests < count) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+}
+
 beforeEach(async () => {
   await resetDb();
 });
@@ -121,6 +187,40 @@ describe('search definition', () => {
     expect(serialized.userNames).toStrictEqual(searchDef.userNames);
   });
 
+  it('serializes variant settings', async () => {
+    const searchDef = new SearchDefinition(undefined, VALID_SITE_NAMES);
+    searchDef.expandVariants = true;
+    searchDef.variantRules = [VariantRule.LAST_FIRST];
+
+    const serialized = searchDef.serialize();
+    expect(serialized.expandVariants).toBeTruthy();
+    expect(serialized.variantRules).toEqual([VariantRule.LAST_FIRST]);
+
+    const deserialized = await SearchDefinition.deserialize(serialized);
+    expect(deserialized.expandVariants).toBeTruthy();
+    expect(deserialized.variantRules).toEqual([VariantRule.LAST_FIRST]);
+  });
+
+  it('only searches its own user names by default', () => {
+    const searchDef = new SearchDefinition(undefined, VALID_SITE_NAMES);
+    searchDef.userNames.push('jane.doe', 'jane.doe');
+    searchDef.firstNames.push('Jane');
+    searchDef.lastNames.push('Doe');
+
+    expect(searchDef.candidates).toEqual([{ userName: 'jane.doe', variant: null }]);
+  });
+
+  it('expands variants when asked', () => {
+    const searchDef = new SearchDefinition(undefined, VALID_SITE_NAMES);
+    searchDef.userNames.push('jane.doe');
+    searchDef.firstNames.push('Jane');
+    searchDef.lastNames.push('Doe');
+    searchDef.expandVariants = true;
+
+    const userNames = searchDef.candidates.map(candidate => candidate.userName);
+    expect(userNames).toEqual(['jane.doe', 'jane_doe', 'janedoe', 'jdoe', 'jane-doe']);
+  });
+
   it('sets its date/times', () => {
     const searchDef = new SearchDefinition();
 
@@ -432,6 +532,310 @@ describe('search', () => {
     expect(search.results).toHaveLength(definition.includedSites.length);
   });
 
+  it('does not duplicate results when pausing and resuming', async () => {
+    jest.setTimeout(15000);
+
+    definition.userNames.push('test');
+    definition.userNames.push('test2');
+    definition.userNames.push('test');
+
+    const search = await definition.new();
+    search.executorOptions.concurrency = 2;
+
+    let paused: Promise<void> = Promise.resolve();
+    search.events.once('result', () => {
+      paused = search.pause();
+    });
+
+    await search.start();
+    await paused;
+    expect(search.state).toEqual(SearchState.PAUSED);
+
+    await search.resume();
+    expect(search.state).toEqual(SearchState.COMPLETED);
+    expect(search.progress).toEqual(100);
+    expect(search.lastSiteIndex).toEqual(0);
+    expect(search.lastUserNameIndex).toEqual(0);
+
+    // Duplicate user name should only be searched once
+    expect(search.results).toHaveLength(definition.includedSites.length * 2);
+    expect(new Set(search.results.map(result => result.id)).size).toEqual(search.results.length);
+  });
+
+  it('aborts requests in flight when cancelled', async () => {
+    const transport = new HangingTransport();
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+    definition.userNames.push('test2');
+
+    const search = await definition.new();
+    search.transport = transport;
+
+    const started = search.start();
+    await transport.waitForRequests(2);
+
+    await search.cancel();
+    await started;
+
+    expect(transport.aborted).toEqual(2);
+    expect(search.state).toEqual(SearchState.CANCELLED);
+    expect(search.results).toHaveLength(0);
+    expect(ThirdPartyAccount.resultCache.filter(account => account.id.startsWith(search.id))).toEqual({});
+
+    const db = await getDb();
+    const saved = await db.get<SearchSchema>(search.id);
+    expect(saved.state).toEqual(SearchState.CANCELLED);
+  });
+
+  it('sends aborted requests again after pausing', async () => {
+    const transport = new HangingTransport();
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+    definition.userNames.push('test2');
+
+    const search = await definition.new();
+    search.transport = transport;
+
+    const started = search.start();
+    await transport.waitForRequests(2);
+
+    await search.pause();
+    await started;
+
+    expect(search.state).toEqual(SearchState.PAUSED);
+    expect(search.results).toHaveLength(0);
+    expect(search.lastSiteIndex).toEqual(0);
+    expect(search.lastUserNameIndex).toEqual(0);
+
+    search.transport = new ReplayTransport([
+      {
+        request: { url: 'https://example.test/test', method: 'HEAD' },
+        response: okResponse('https://example.test/test'),
+      },
+      {
+        request: { url: 'https://example.test/test2', method: 'HEAD' },
+        response: okResponse('https://example.test/test2'),
+      },
+    ]);
+    await search.resume();
+
+    expect(search.state).toEqual(SearchState.COMPLETED);
+    expect(search.registeredResults).toHaveLength(2);
+  });
+
+  it('emits typed events while running', async () => {
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+    definition.userNames.push('test2');
+
+    const search = await definition.new();
+    search.transport = new ReplayTransport([
+      {
+        request: { url: 'https://example.test/test', method: 'HEAD' },
+        response: okResponse('https://example.test/test'),
+      },
+      {
+        request: { url: 'https://example.test/test2', method: 'HEAD' },
+        response: okResponse('https://example.test/test2'),
+      },
+    ]);
+
+    const states: SearchState[] = [];
+    const started: string[] = [];
+    const finished: string[] = [];
+    const progress: SearchProgress[] = [];
+    const done: SearchState[] = [];
+    search.events.on('stateChange', change => states.push(change.state));
+    search.events.on('siteStarted', event => started.push(event.userName));
+    search.events.on('siteFinished', event => finished.push(event.account.userName));
+    search.events.on('progress', event => progress.push(event));
+    search.events.on('done', event => done.push(event.state));
+
+    await search.start();
+
+    expect(states).toEqual([SearchState.IN_PROGRESS, SearchState.COMPLETED]);
+    expect(started.sort()).toEqual(['test', 'test2']);
+    expect(finished.sort()).toEqual(['test', 'test2']);
+    expect(progress.map(event => event.completed)).toEqual([1, 2]);
+    expect(progress[1]).toEqual({ completed: 2, total: 2, percent: 100, eta: 0 });
+    expect(done).toEqual([SearchState.COMPLETED]);
+  });
+
+  it('can be followed with an async iterator', async () => {
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+
+    const search = await definition.new();
+    search.transport = new ReplayTransport([
+      {
+        request: { url: 'https://example.test/test', method: 'HEAD' },
+        response: okResponse('https://example.test/test'),
+      },
+    ]);
+
+    const types: string[] = [];
+    const follow = async () => {
+      for await (const event of search.events) {
+        types.push(event.type);
+      }
+    };
+
+    await Promise.all([follow(), search.start()]);
+
+    expect(types).toEqual(['stateChange', 'siteStarted', 'result', 'siteFinished', 'progress', 'stateChange', 'done']);
+  });
+
+  it('emits an error when the search fails', async () => {
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+
+    const search = await definition.new();
+    search.transport = {
+      name: 'broken',
+      fetch: async url => ({
+        ...toTransportResponse({ request: { url, method: 'HEAD' }, response: okResponse(url) }),
+        text: async () => {
+          throw new Error('Body went missing');
+        },
+      }),
+    };
+
+    const errors: any[] = [];
+    search.events.on('error', event => errors.push(event.error));
+
+    await search.start();
+
+    expect(search.state).toEqual(SearchState.FAILED);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toEqual('Body went missing');
+  });
+
+  it('retries failed results in place', async () => {
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+    definition.userNames.push('test2');
+
+    const search = await definition.new();
+    await search.start();
+
+    expect(search.inconclusiveResults).toHaveLength(2);
+    const previous = search.results.slice();
+
+    const emitted: string[] = [];
+    search.events.on('result', id => emitted.push(id));
+
+    const retried = await search.retryFailed();
+
+    expect(retried).toHaveLength(2);
+    expect(search.results).toHaveLength(2);
+    expect(emitted).toHaveLength(2);
+
+    for (const account of retried) {
+      expect(previous).not.toContain(account);
+      expect(previous.map(result => result.id)).toContain(account.id);
+
+      expect(search.results).toContain(account);
+      expect(search.resultsById[account.id]).toBe(account);
+      expect(search.resultsMap[account.site.name][account.userName]).toBe(account);
+      expect(search.resultsBySite[account.site.name]).toContain(account);
+      expect(search.resultsByUser[account.userName]).toEqual([account]);
+
+      // Saved over the old document
+      await expect(account.id).toBeInDatabase();
+      expect(account.rev.startsWith('2-')).toBeTruthy();
+    }
+  });
+
+  it('aborts retries when paused', async () => {
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+    definition.userNames.push('test2');
+
+    const search = await definition.new();
+    await search.start();
+    expect(search.inconclusiveResults).toHaveLength(2);
+
+    const transport = new HangingTransport();
+    search.transport = transport;
+    const retrying = search.retryFailed();
+    await transport.waitForRequests(2);
+
+    await search.pause();
+
+    expect(await retrying).toEqual([]);
+    expect(transport.aborted).toEqual(2);
+    expect(search.state).toEqual(SearchState.COMPLETED);
+    expect(search.inconclusiveResults).toHaveLength(2);
+  });
+
+  it('does not start while retrying and aborts retries when cancelled', async () => {
+    definition.includedSites = [unreachableSite];
+    definition.userNames.push('test');
+
+    const search = await definition.new();
+    await search.start();
+    search.state = SearchState.PAUSED;
+
+    const transport = new HangingTransport();
+    search.transport = transport;
+    const retrying = search.retryFailed();
+    await transport.waitForRequests(1);
+
+    await expect(search.start()).rejects.toThrow('retried');
+    await expect(search.retryFailed()).rejects.toThrow('retried');
+
+    await search.cancel();
+
+    expect(await retrying).toEqual([]);
+    expect(transport.aborted).toEqual(1);
+    expect(search.state).toEqual(SearchState.CANCELLED);
+  });
+
+  it('keeps invalid results out of registered and inconclusive results', async () => {
+    definition.includedSites = [{ ...definition.includedSites[0], regexCheck: '^[a-z]+$' }];
+    definition.userNames.push('NOT_VALID');
+
+    const search = await definition.new();
+    await search.start();
+
+    expect(search.results).toHaveLength(1);
+    expect(search.invalidResults).toHaveLength(1);
+    expect(search.registeredResults).toHaveLength(0);
+    expect(search.unregisteredResults).toHaveLength(0);
+    expect(search.inconclusiveResults).toHaveLength(0);
+    expect(search.progress).toEqual(100);
+  });
+
+  it('searches and records user name variants', async () => {
+    definition.userNames.push('jane.doe');
+    definition.expandVariants = true;
+    definition.variantRules = [VariantRule.SEPARATORS];
+
+    const search = await definition.new();
+    expect(search.progress).toEqual(0);
+
+    await search.start();
+
+    expect(search.progress).toEqual(100);
+    expect(Object.keys(search.resultsByUser).sort()).toEqual(['jane-doe', 'jane.doe', 'jane_doe', 'janedoe']);
+    expect(search.results).toHaveLength(definition.includedSites.length * 4);
+
+    for (const result of search.resultsByUser['jane.doe'] as AutoSearchAccount[]) {
+      expect(result.variant).toBeNull();
+    }
+    for (const result of search.resultsByUser.janedoe as AutoSearchAccount[]) {
+      expect(result.variant).toEqual({ rule: VariantRule.SEPARATORS, from: ['jane.doe'] });
+      expect(result.serialize().variant).toEqual(result.variant);
+    }
+  });
+
+  it('does not retry failed results while in progress', async () => {
+    const search = await definition.new();
+    search.state = SearchState.IN_PROGRESS;
+
+    await expect(search.retryFailed()).rejects.toThrow();
+  });
+
   it('deserializes with results', async () => {
     definition.userNames.push('test');
 
@@ -478,6 +882,41 @@ describe('Internal Search', () => {
     }
   });
 
+  it('rejects user names that fail regexCheck without a request', async () => {
+    site.regexCheck = '^[a-z]+$';
+
+    const result = await findAccount(site, 'not-valid');
+    expect(result).toBeInstanceOf(InvalidAccount);
+
+    if (result instanceof InvalidAccount) {
+      expect(result.reason).toContain(site.regexCheck);
+    }
+  });
+
+  it('rejects user names with a period when noPeriod is set', async () => {
+    site.noPeriod = 'True';
+
+    const result = await findAccount(site, 'jane.doe');
+    expect(result).toBeInstanceOf(InvalidAccount);
+  });
+
+  it('searches user names that pass regexCheck', async () => {
+    site.regexCheck = '^[a-z]+$';
+
+    // Invalid DNS, so this should fail instead of being invalid
+    const result = await findAccount(site, 'valid');
+    expect(result).toBeInstanceOf(FailedAccount);
+  });
+
+  it('ignores a regexCheck that is not valid JavaScript', async () => {
+    site.regexCheck = '^[a-z';
+
+    console.warn = jest.fn();
+    const result = await findAccount(site, 'test');
+    expect(console.warn).toBeCalled();
+    expect(result).not.toBeInstanceOf(InvalidAccount);
+  });
+
   for (const errorType of ERROR_TYPES) {
     describe(`Error type: ${errorType}`, () => {
       beforeEach(() => {
@@ -497,3 +936,518 @@ describe('Internal Search', () => {
     });
   }
 });
+
+describe('search executor', () => {
+  const makeTasks = (hosts: string[]): SearchTask[] => {
+    return hosts.map((host, i) => ({
+      siteIndex: i,
+      userNameIndex: 0,
+      site: { name: host } as Site,
+      userName: 'test',
+      host,
+    }));
+  };
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('runs every task', async () => {
+    const tasks = makeTasks(['a', 'b', 'c', 'd']);
+    const finished: SearchTask[] = [];
+
+    const executor = new SearchExecutor(tasks, async task => {
+      finished.push(task);
+    });
+    await executor.run();
+
+    expect(finished).toHaveLength(tasks.length);
+    expect(executor.pending).toHaveLength(0);
+  });
+
+  it('resolves with no tasks', async () => {
+    const executor = new SearchExecutor([], async () => undefined);
+    await executor.run();
+
+    expect(executor.pending).toHaveLength(0);
+  });
+
+  it('respects the global concurrency limit', async () => {
+    const tasks = makeTasks(['a', 'b', 'c', 'd', 'e', 'f']);
+    let active = 0;
+    let maxActive = 0;
+
+    const executor = new SearchExecutor(
+      tasks,
+      async () => {
+        maxActive = Math.max(maxActive, ++active);
+        await sleep(5);
+        active--;
+      },
+      () => true,
+      { concurrency: 3, perHostConcurrency: 10 },
+    );
+    await executor.run();
+
+    expect(maxActive).toEqual(3);
+  });
+
+  it('respects the per-host concurrency limit', async () => {
+    const tasks = makeTasks(['a', 'a', 'a', 'a', 'b', 'b']);
+    const active: { [host: string]: number } = {};
+    const maxActive: { [host: string]: number } = {};
+
+    const executor = new SearchExecutor(
+      tasks,
+      async task => {
+        active[task.host] = (active[task.host] || 0) + 1;
+        maxActive[task.host] = Math.max(maxActive[task.host] || 0, active[task.host]);
+        await sleep(5);
+        active[task.host]--;
+      },
+      () => true,
+      { concurrency: 10, perHostConcurrency: 1 },
+    );
+    await executor.run();
+
+    expect(maxActive).toEqual({ a: 1, b: 1 });
+  });
+
+  it('reports unfinished tasks in order when stopped', async () => {
+    const tasks = makeTasks(['a', 'a', 'b', 'c']);
+    let keepGoing = true;
+
+    const executor = new SearchExecutor(
+      tasks,
+      async task => {
+        // Finish the later task first
+        await sleep(task.siteIndex === 0 ? 10 : 1);
+        keepGoing = false;
+      },
+      () => keepGoing,
+      { concurrency: 2, perHostConcurrency: 1 },
+    );
+    await executor.run();
+
+    // 'a' (0) and 'b' (2) were dispatched and finished, skipping the second 'a' (1)
+    expect(executor.pending.map(task => task.siteIndex)).toEqual([1, 3]);
+  });
+
+  it('rejects with a worker error', async () => {
+    const tasks = makeTasks(['a', 'b']);
+
+    const executor = new SearchExecutor(tasks, async task => {
+      if (task.host === 'a') {
+        throw new Error('Oops');
+      }
+    });
+
+    await expect(executor.run()).rejects.toThrow('Oops');
+    expect(executor.pending.map(task => task.siteIndex)).toEqual([0]);
+  });
+});
+
+describe('user name variants', () => {
+  it('keeps user names first and in order', () => {
+    const candidates = expandUserNames(['b', 'a'], ['Jane'], ['Doe']);
+
+    expect(candidates[0]).toEqual({ userName: 'b', variant: null });
+    expect(candidates[1]).toEqual({ userName: 'a', variant: null });
+  });
+
+  it('builds variants from first and last names', () => {
+    const candidates = expandUserNames(
+      [],
+      ['Jane'],
+      ['Doe'],
+      [
+        VariantRule.FIRST_DOT_LAST,
+        VariantRule.FIRST_UNDERSCORE_LAST,
+        VariantRule.FIRST_DASH_LAST,
+        VariantRule.FIRST_LAST,
+        VariantRule.INITIAL_LAST,
+        VariantRule.FIRST_INITIAL,
+        VariantRule.LAST_FIRST,
+      ],
+    );
+
+    expect(candidates.map(candidate => candidate.userName)).toEqual([
+      'jane.doe',
+      'jane_doe',
+      'jane-doe',
+      'janedoe',
+      'jdoe',
+      'janed',
+      'doejane',
+    ]);
+    expect(candidates[0].variant).toEqual({ rule: VariantRule.FIRST_DOT_LAST, from: ['Jane', 'Doe'] });
+  });
+
+  it('builds variants for every first/last name pair', () => {
+    const candidates = expandUserNames([], ['Jane', 'Janet'], ['Doe', 'Smith'], [VariantRule.FIRST_LAST]);
+
+    expect(candidates.map(candidate => candidate.userName)).toEqual(['janedoe', 'janesmith', 'janetdoe', 'janetsmith']);
+  });
+
+  it('swaps separators in user names', () => {
+    const candidates = expandUserNames(['jane.doe'], [], [], [VariantRule.SEPARATORS]);
+
+    expect(candidates.map(candidate => candidate.userName)).toEqual(['jane.doe', 'jane_doe', 'jane-doe', 'janedoe']);
+    expect(candidates[1].variant).toEqual({ rule: VariantRule.SEPARATORS, from: ['jane.doe'] });
+  });
+
+  it('normalizes names', () => {
+    const candidates = expandUserNames([], [' Mary Ann '], ['DOE'], [VariantRule.FIRST_LAST]);
+
+    expect(candidates.map(candidate => candidate.userName)).toEqual(['maryanndoe']);
+  });
+
+  it('does not duplicate user names', () => {
+    const candidates = expandUserNames(['janedoe', 'janedoe'], ['Jane'], ['Doe'], [VariantRule.FIRST_LAST]);
+
+    expect(candidates).toEqual([{ userName: 'janedoe', variant: null }]);
+  });
+
+  it('needs both a first and last name', () => {
+    expect(expandUserNames([], ['Jane'], [], [VariantRule.FIRST_LAST])).toHaveLength(0);
+    expect(expandUserNames([], [], ['Doe'], [VariantRule.FIRST_LAST])).toHaveLength(0);
+  });
+});
+
+describe('search diff', () => {
+  const siteA: Site = { ...supportedSites.GitHub };
+  const siteB: Site = { ...supportedSites.Wikipedia };
+
+  let definition: SearchDefinition;
+  let before: Search;
+  let after: Search;
+
+  beforeEach(() => {
+    definition = new SearchDefinition(undefined, []);
+    before = new Search(definition);
+    after = new Search(definition);
+  });
+
+  it('is empty for identical searches', () => {
+    before.results.push(new RegisteredAccount(siteA, 'test'), new UnregisteredAccount(siteB, 'test'));
+    after.results.push(new RegisteredAccount(siteA, 'test'), new UnregisteredAccount(siteB, 'test'));
+
+    expect(diff(before, after)).toEqual({
+      registered: {},
+      disappeared: {},
+      failureChanged: {},
+      nameMatchesChanged: {},
+    });
+  });
+
+  it('finds newly registered accounts', () => {
+    before.results.push(new UnregisteredAccount(siteA, 'test'));
+    after.results.push(new RegisteredAccount(siteA, 'test'), new RegisteredAccount(siteB, 'test'));
+
+    const changes = diff(before, after);
+    const idA = toAccountId(siteA, 'test');
+    const idB = toAccountId(siteB, 'test');
+
+    expect(Object.keys(changes.registered).sort()).toEqual([idA, idB].sort());
+    expect(changes.registered[idA].before).toBe(before.results[0]);
+    expect(changes.registered[idA].after).toBe(after.results[0]);
+    expect(changes.registered[idB].before).toBeNull();
+    expect(changes.registered[idB].siteName).toEqual(siteB.name);
+    expect(changes.registered[idB].userName).toEqual('test');
+  });
+
+  it('finds accounts that disappeared', () => {
+    before.results.push(new RegisteredAccount(siteA, 'test'), new RegisteredAccount(siteB, 'test'));
+    after.results.push(new UnregisteredAccount(siteA, 'test'), new FailedAccount(siteB, 'test'));
+
+    const changes = diff(before, after);
+
+    // A failed search doesn't tell us the account is gone
+    expect(Object.keys(changes.disappeared)).toEqual([toAccountId(siteA, 'test')]);
+    expect(changes.registered).toEqual({});
+  });
+
+  it('finds registered accounts on sites that were not searched again', () => {
+    before.results.push(new RegisteredAccount(siteA, 'test'), new UnregisteredAccount(siteB, 'test'));
+
+    const changes = diff(before, after);
+    const idA = toAccountId(siteA, 'test');
+
+    expect(Object.keys(changes.disappeared)).toEqual([idA]);
+    expect(changes.disappeared[idA].before).toBe(before.results[0]);
+    expect(changes.disappeared[idA].after).toBeNull();
+    expect(changes.failureChanged).toEqual({});
+  });
+
+  it('finds changes in failure state', () => {
+    before.results.push(new FailedAccount(siteA, 'test'), new RegisteredAccount(siteB, 'test'));
+    after.results.push(new RegisteredAccount(siteA, 'test'), new FailedAccount(siteB, 'test'));
+
+    const changes = diff(before, after);
+
+    expect(Object.keys(changes.failureChanged).sort()).toEqual(
+      [toAccountId(siteA, 'test'), toAccountId(siteB, 'test')].sort(),
+    );
+    expect(Object.keys(changes.registered)).toEqual([toAccountId(siteA, 'test')]);
+    expect(changes.disappeared).toEqual({});
+  });
+
+  it('finds changes in name matches', () => {
+    const previous = new RegisteredAccount(siteA, 'test');
+    previous.matchedFirstNames = ['Jane'];
+    const current = new RegisteredAccount(siteA, 'test');
+    current.matchedFirstNames = ['Jane'];
+    current.matchedLastNames = ['Doe'];
+    const reordered = new RegisteredAccount(siteB, 'test');
+    reordered.matchedFirstNames = ['Jane', 'Janet'];
+    const reorderedAfter = new RegisteredAccount(siteB, 'test');
+    reorderedAfter.matchedFirstNames = ['Janet', 'Jane'];
+
+    before.results.push(previous, reordered);
+    after.results.push(current, reorderedAfter);
+
+    const changes = diff(before, after);
+
+    expect(Object.keys(changes.nameMatchesChanged)).toEqual([toAccountId(siteA, 'test')]);
+  });
+});
+
+describe('ETA estimator', () => {
+  it('needs at least two results', () => {
+    const eta = new EtaEstimator();
+    expect(eta.estimate(10)).toBeNull();
+
+    eta.record(1000);
+    expect(eta.estimate(10)).toBeNull();
+  });
+
+  it('uses the rate of recent results', () => {
+    const eta = new EtaEstimator(3);
+    eta.record(0);
+    eta.record(1000);
+    expect(eta.estimate(5)).toEqual(5000);
+
+    // Only the last 3 count
+    eta.record(1100);
+    eta.record(1200);
+    expect(eta.estimate(5)).toEqual(500);
+    expect(eta.estimate(0)).toEqual(0);
+
+    eta.reset();
+    expect(eta.estimate(5)).toBeNull();
+  });
+});
+
+describe('email search', () => {
+  const emailSite: Site = {
+    ...unreachableSite,
+    name: 'Email Example',
+    emailProbe: {
+      url: 'https://example.test/api/lookup?email={}',
+      errorType: 'json_api',
+      jsonPath: 'exists',
+      jsonValue: true,
+    },
+  };
+
+  const lookup = (email: string, exists: boolean): RecordedExchange => {
+    const url = `https://example.test/api/lookup?email=${encodeURIComponent(email)}`;
+    return { request: { url, method: 'GET' }, response: { ...okResponse(url), body: JSON.stringify({ exists }) } };
+  };
+
+  it('serializes emails', async () => {
+    const searchDef = new SearchDefinition(undefined, []);
+    searchDef.emails.push('jane@example.test');
+
+    const serialized = searchDef.serialize();
+    expect(serialized.emails).toEqual(['jane@example.test']);
+
+    SearchDefinition.cache.clear();
+    const deserialized = await SearchDefinition.deserialize(serialized);
+    expect(deserialized.emails).toEqual(['jane@example.test']);
+  });
+
+  it('searches emails after user names', () => {
+    const searchDef = new SearchDefinition(undefined, []);
+    searchDef.userNames.push('jane');
+    searchDef.emails.push('jane@example.test', 'jane@example.test');
+
+    expect(searchDef.identifiers).toEqual([
+      { userName: 'jane', variant: null, email: null, personaId: DEFAULT_PERSONA_ID },
+      { userName: 'jane@example.test', variant: null, email: 'jane@example.test', personaId: DEFAULT_PERSONA_ID },
+    ]);
+  });
+
+  it('finds accounts by email', async () => {
+    const definition = new SearchDefinition(undefined, []);
+    const search = await definition.new();
+    search.transport = new ReplayTransport([lookup('jane+test@example.test', true), lookup('bob@example.test', false)]);
+
+    const account = await findEmailAccount(emailSite, 'jane+test@example.test', search);
+    expect(account).toBeInstanceOf(RegisteredAccount);
+    expect(account.email).toEqual('jane+test@example.test');
+    expect(account.site).toBe(emailSite);
+    expect(account.evidence!.url).toEqual('https://example.test/api/lookup?email=jane%2Btest%40example.test');
+
+    expect(await findEmailAccount(emailSite, 'bob@example.test', search)).toBeInstanceOf(UnregisteredAccount);
+  });
+
+  it('does not probe sites without an emailProbe or invalid addresses', async () => {
+    const noProbe = await findEmailAccount(unreachableSite, 'jane@example.test');
+    expect(noProbe).toBeInstanceOf(InvalidAccount);
+    expect(noProbe.email).toEqual('jane@example.test');
+
+    expect(await findEmailAccount(emailSite, 'not an email')).toBeInstanceOf(InvalidAccount);
+  });
+
+  it('reports email hits separately from user names', async () => {
+    const definition = new SearchDefinition(undefined, []);
+    definition.includedSites = [emailSite, unreachableSite];
+    definition.userNames.push('jane');
+    definition.emails.push('jane@example.test');
+
+    const search = await definition.new();
+    search.transport = new ReplayTransport([
+      {
+        request: { url: 'https://example.test/jane', method: 'HEAD' },
+        response: okResponse('https://example.test/jane'),
+      },
+      lookup('jane@example.test', true),
+    ]);
+    await search.start();
+
+    expect(search.state).toEqual(SearchState.COMPLETED);
+    expect(search.results).toHaveLength(3);
+    expect(search.progress).toEqual(100);
+
+    const emailResults = search.results.filter(account => account.email !== null);
+    expect(emailResults).toHaveLength(1);
+    expect(emailResults[0]).toBeInstanceOf(RegisteredAccount);
+    expect(emailResults[0].site.name).toEqual('Email Example');
+    expect(emailResults[0].id).not.toEqual(search.resultsMap['Email Example'].jane.id);
+  });
+
+  it('is added to existing definitions by migration', async () => {
+    const rawDb = new PouchDB('search.test.ts', DB_OPTIONS);
+    await rawDb.put({ ...DEFAULT_SETTINGS, version: '0.0.8' });
+
+    const definition = new SearchDefinition(undefined, []);
+    const { emails, ...oldDoc } = definition.serialize();
+    await rawDb.put(oldDoc);
+
+    await doMigrations(rawDb);
+
+    const doc = await rawDb.get<SearchDefinitionSchema>(definition.id);
+    expect(doc.emails).toEqual([]);
+  });
+});
+
+describe('personas', () => {
+  const profileSite: Site = {
+    ...unreachableSite,
+    name: 'Profile Example',
+    request_head_only: false,
+  };
+
+  const profile = (userName: string, body: string): RecordedExchange => {
+    const url = `https://example.test/${userName}`;
+    return { request: { url, method: 'GET' }, response: { ...okResponse(url), body } };
+  };
+
+  it('serializes personas', async () => {
+    const searchDef = new SearchDefinition(undefined, []);
+    const persona = searchDef.addPersona('Work');
+    persona.userNames.push('jdoe');
+    persona.firstNames.push('Jane');
+
+    const serialized = searchDef.serialize();
+    expect(serialized.personas).toEqual([persona]);
+
+    SearchDefinition.cache.clear();
+    const deserialized = await SearchDefinition.deserialize(serialized);
+    expect(deserialized.personas).toEqual([persona]);
+  });
+
+  it('assigns each user name to the first persona that has it', () => {
+    const searchDef = new SearchDefinition(undefined, []);
+    searchDef.userNames.push('jane');
+    const work = searchDef.addPersona('Work');
+    work.userNames.push('jdoe', 'jane');
+    work.emails.push('jdoe@example.test');
+
+    expect(searchDef.identifiers).toEqual([
+      { userName: 'jane', variant: null, email: null, personaId: DEFAULT_PERSONA_ID },
+      { userName: 'jdoe', variant: null, email: null, personaId: work.id },
+      { userName: 'jdoe@example.test', variant: null, email: 'jdoe@example.test', personaId: work.id },
+    ]);
+    expect(searchDef.candidates).toEqual([
+      { userName: 'jane', variant: null },
+      { userName: 'jdoe', variant: null },
+    ]);
+
+    expect(searchDef.getPersona('jdoe')).toBe(work);
+    expect(searchDef.getPersona('jane').id).toEqual(DEFAULT_PERSONA_ID);
+    expect(searchDef.getPersona('someone else').id).toEqual(DEFAULT_PERSONA_ID);
+  });
+
+  it('only matches names from the persona that owns the user name', async () => {
+    const definition = new SearchDefinition(undefined, []);
+    definition.userNames.push('jane');
+    definition.firstNames.push('Jane');
+    const work = definition.addPersona('Work');
+    work.userNames.push('jdoe');
+    work.lastNames.push('Doe');
+
+    const search = await definition.new();
+    search.transport = new ReplayTransport([profile('jane', 'Jane Doe'), profile('jdoe', 'Jane Doe')]);
+
+    const personal = await findAccount(profileSite, 'jane', search);
+    expect(personal.matchedFirstNames).toEqual(['Jane']);
+    expect(personal.matchedLastNames).toEqual([]);
+
+    const professional = await findAccount(profileSite, 'jdoe', search);
+    expect(professional.matchedFirstNames).toEqual([]);
+    expect(professional.matchedLastNames).toEqual(['Doe']);
+  });
+
+  it('groups results by persona', async () => {
+    const definition = new SearchDefinition(undefined, []);
+    definition.includedSites = [profileSite];
+    definition.userNames.push('jane');
+    const work = definition.addPersona('Work');
+    work.userNames.push('jdoe');
+
+    const search = await definition.new();
+    search.transport = new ReplayTransport([profile('jane', ''), profile('jdoe', '')]);
+    const finished: { [userName: string]: string } = {};
+    search.events.on('siteFinished', event => (finished[event.userName] = event.personaId));
+    await search.start();
+
+    expect(search.state).toEqual(SearchState.COMPLETED);
+    expect(finished).toEqual({ jane: DEFAULT_PERSONA_ID, jdoe: work.id });
+    const jane = search.resultsMap['Profile Example'].jane as AutoSearchAccount;
+    const jdoe = search.resultsMap['Profile Example'].jdoe as AutoSearchAccount;
+    expect(jane.personaId).toEqual(DEFAULT_PERSONA_ID);
+    expect(jdoe.personaId).toEqual(work.id);
+    expect(search.resultsByPersona[DEFAULT_PERSONA_ID].map(account => account.userName)).toEqual(['jane']);
+    expect(search.resultsByPersona[work.id].map(account => account.userName)).toEqual(['jdoe']);
+
+    expect(jdoe.serialize().personaId).toEqual(work.id);
+
+    const changes = diff(new Search(definition), search);
+    expect(changes.registered[toAccountId(profileSite, 'jane')].personaId).toEqual(DEFAULT_PERSONA_ID);
+    expect(changes.registered[toAccountId(profileSite, 'jdoe')].personaId).toEqual(work.id);
+  });
+
+  it('is added to existing definitions by migration', async () => {
+    const rawDb = new PouchDB('search.test.ts.personas', DB_OPTIONS);
+    await rawDb.put({ ...DEFAULT_SETTINGS, version: '0.0.9' });
+
+    const definition = new SearchDefinition(undefined, []);
+    const { personas, ...oldDoc } = definition.serialize();
+    await rawDb.put(oldDoc);
+
+    await doMigrations(rawDb);
+
+    const doc = await rawDb.get<SearchDefinitionSchema>(definition.id);
+    expect(doc.personas).toEqual([]);
+  });
+});
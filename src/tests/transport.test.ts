@@ -0,0 +1,472 @@
+import { resetDb } from 'db';
+import { ExtensionRpcRequest, ExtensionRpcResponse } from 'meta';
+import {
+  ExtensionRpcHook,
+  ExtensionTransport,
+  FailedAccount,
+  findAccount,
+  getDefaultTransport,
+  InvalidAccount,
+  NodeFetchTransport,
+  RecordingTransport,
+  RegisteredAccount,
+  ReplayTransport,
+  SearchDefinition,
+  setDefaultTransport,
+  Transport,
+  UnregisteredAccount,
+} from 'search';
+import { Site } from 'sites';
+import { exchange } from './util';
+
+describe('Replay transport', () => {
+  it('replays a matching request', async () => {
+    const transport = new ReplayTransport([exchange('https://example.test/a', 200, 'hello')]);
+
+    const response = await transport.fetch('https://example.test/a', { method: 'GET' });
+
+    expect(response.status).toEqual(200);
+    expect(response.url).toEqual('https://example.test/a');
+    expect(await response.text()).toEqual('hello');
+  });
+
+  it('looks up headers case-insensitively', async () => {
+    const transport = new ReplayTransport([exchange('https://example.test/a', 200)]);
+
+    const response = await transport.fetch('https://example.test/a', {});
+
+    expect(response.headers.get('content-type')).toEqual('text/html');
+    expect(response.headers.get('CONTENT-TYPE')).toEqual('text/html');
+    expect(response.headers.get('x-missing')).toBeNull();
+  });
+
+  it('matches on method', async () => {
+    const transport = new ReplayTransport([exchange('https://example.test/a', 200, '', 'HEAD')]);
+
+    await expect(transport.fetch('https://example.test/a', { method: 'GET' })).rejects.toThrow('No recording');
+    await expect(transport.fetch('https://example.test/a', { method: 'HEAD' })).resolves.toBeDefined();
+  });
+
+  it('throws for an unknown request', async () => {
+    const transport = new ReplayTransport([]);
+
+    await expect(transport.fetch('https://example.test/a', {})).rejects.toThrow('No recording');
+    expect(transport.misses).toEqual([{ url: 'https://example.test/a', method: 'GET' }]);
+  });
+
+  it('replays each recording once in strict mode', async () => {
+    const transport = new ReplayTransport(
+      [
+        exchange('https://example.test/a', 429),
+        exchange('https://example.test/a', 200),
+        exchange('https://example.test/b', 200),
+      ],
+      { strict: true },
+    );
+
+    expect((await transport.fetch('https://example.test/a', {})).status).toEqual(429);
+    expect((await transport.fetch('https://example.test/a', {})).status).toEqual(200);
+    await expect(transport.fetch('https://example.test/a', {})).rejects.toThrow('No recording');
+
+    expect(transport.misses).toEqual([{ url: 'https://example.test/a', method: 'GET' }]);
+    expect(transport.unused.map(recording => recording.request.url)).toEqual(['https://example.test/b']);
+  });
+});
+
+describe('Recording transport', () => {
+  it('records exchanges that can be replayed', async () => {
+    const inner = new ReplayTransport([exchange('https://example.test/a', 404, 'not found')]);
+    const recorder = new RecordingTransport(inner);
+
+    const response = await recorder.fetch('https://example.test/a', { method: 'get' });
+
+    // Body should still be readable after recording
+    expect(await response.text()).toEqual('not found');
+
+    expect(recorder.recordings).toEqual([
+      {
+        request: { url: 'https://example.test/a', method: 'GET' },
+        response: {
+          status: 404,
+          url: 'https://example.test/a',
+          headers: { 'content-type': 'text/html' },
+          body: 'not found',
+        },
+      },
+    ]);
+
+    const replayed = await new ReplayTransport(recorder.recordings).fetch('https://example.test/a', {});
+    expect(replayed.status).toEqual(404);
+  });
+});
+
+describe('Extension transport', () => {
+  /** Fake extension hook that answers each request with `reply`. */
+  const makeHook = (reply: (request: ExtensionRpcRequest) => Partial<ExtensionRpcResponse> | null) => {
+    const listeners: ((message: ExtensionRpcResponse) => void)[] = [];
+    const sent: ExtensionRpcRequest[] = [];
+    const cancelled: string[] = [];
+
+    const hook: ExtensionRpcHook = {
+      postMessage: message => {
+        if (message.type === 'trace-rpc-cancel') {
+          cancelled.push(message.id);
+          return;
+        }
+
+        sent.push(message);
+        const response = reply(message);
+        if (response) {
+          setTimeout(() => {
+            for (const listener of listeners) {
+              listener({ type: 'trace-rpc-response', id: message.id, ...response });
+            }
+          });
+        }
+      },
+      addMessageListener: listener => {
+        listeners.push(listener);
+      },
+    };
+
+    return { hook, sent, cancelled };
+  };
+
+  it('sends fetches through the extension', async () => {
+    const { hook, sent } = makeHook(request => ({
+      result: {
+        status: 200,
+        url: 'https://example.test/final',
+        headers: { 'Content-Type': 'text/html' },
+        body: 'hello',
+      },
+    }));
+    const transport = new ExtensionTransport(hook);
+
+    const response = await transport.fetch('https://example.test/a', { method: 'GET', credentials: 'include' });
+
+    expect(response.status).toEqual(200);
+    expect(response.url).toEqual('https://example.test/final');
+    expect(response.headers.get('content-type')).toEqual('text/html');
+    expect(await response.text()).toEqual('hello');
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].method).toEqual('fetch');
+    expect(sent[0].params).toEqual({
+      url: 'https://example.test/a',
+      options: { method: 'GET', credentials: 'include' },
+    });
+  });
+
+  it('does not send the abort signal', async () => {
+    const { hook, sent } = makeHook(() => ({ result: { status: 404 } }));
+    const transport = new ExtensionTransport(hook);
+
+    await transport.fetch('https://example.test/a', { signal: new AbortController().signal });
+
+    expect(sent[0].params.options).toEqual({});
+  });
+
+  it('matches replies to requests', async () => {
+    const { hook } = makeHook(request => ({ result: { status: 200, body: request.params.url } }));
+    const transport = new ExtensionTransport(hook);
+
+    const responses = await Promise.all([
+      transport.fetch('https://example.test/a', {}),
+      transport.fetch('https://example.test/b', {}),
+    ]);
+
+    expect(await responses[0].text()).toEqual('https://example.test/a');
+    expect(await responses[1].text()).toEqual('https://example.test/b');
+  });
+
+  it('rejects with errors from the extension', async () => {
+    const { hook } = makeHook(() => ({ error: 'Network error' }));
+    const transport = new ExtensionTransport(hook);
+
+    await expect(transport.fetch('https://example.test/a', {})).rejects.toThrow('Network error');
+  });
+
+  it('rejects and cancels the call in the extension when aborted', async () => {
+    const { hook, sent, cancelled } = makeHook(() => null);
+    const transport = new ExtensionTransport(hook);
+    const controller = new AbortController();
+
+    const response = transport.fetch('https://example.test/a', { signal: controller.signal });
+    expect(cancelled).toEqual([]);
+    controller.abort();
+
+    await expect(response).rejects.toHaveProperty('name', 'AbortError');
+    expect(cancelled).toEqual([sent[0].id]);
+  });
+
+  it('does not cancel calls that finished', async () => {
+    const { hook, cancelled } = makeHook(() => ({ result: { status: 200 } }));
+    const transport = new ExtensionTransport(hook);
+    const controller = new AbortController();
+
+    await transport.fetch('https://example.test/a', { signal: controller.signal });
+    controller.abort();
+
+    expect(cancelled).toEqual([]);
+  });
+
+  it('rejects if the extension does not support RPC', async () => {
+    const transport = new ExtensionTransport({});
+
+    await expect(transport.fetch('https://example.test/a', {})).rejects.toThrow();
+  });
+});
+
+describe('Default transport', () => {
+  afterEach(() => {
+    setDefaultTransport(null);
+  });
+
+  it('picks a transport for the environment', () => {
+    expect(getDefaultTransport()).toBeInstanceOf(NodeFetchTransport);
+  });
+
+  it('can be overridden', () => {
+    const transport = new ReplayTransport([]);
+    setDefaultTransport(transport);
+
+    expect(getDefaultTransport()).toBe(transport);
+  });
+});
+
+describe('findAccount with a transport', () => {
+  const site: Site = {
+    name: 'Example',
+    url: 'https://example.test/{}',
+    urlMain: 'https://example.test',
+    errorType: 'status_code',
+    username_claimed: 'claimed',
+    username_unclaimed: 'unclaimed',
+    tags: [],
+  };
+
+  let transport: Transport;
+
+  beforeEach(async () => {
+    await resetDb();
+
+    transport = new ReplayTransport([
+      exchange('https://example.test/claimed', 200, '', 'HEAD'),
+      exchange('https://example.test/unclaimed', 404, '', 'HEAD'),
+    ]);
+  });
+
+  afterEach(() => {
+    setDefaultTransport(null);
+  });
+
+  it('uses the default transport', async () => {
+    setDefaultTransport(transport);
+
+    expect(await findAccount(site, 'claimed')).toBeInstanceOf(RegisteredAccount);
+    expect(await findAccount(site, 'unclaimed')).toBeInstanceOf(UnregisteredAccount);
+  });
+
+  it('uses the transport set on the search', async () => {
+    const definition = new SearchDefinition(undefined, []);
+    const search = await definition.new();
+    search.transport = transport;
+
+    expect(await findAccount(site, 'claimed', search)).toBeInstanceOf(RegisteredAccount);
+    expect(await findAccount(site, 'unclaimed', search)).toBeInstanceOf(UnregisteredAccount);
+  });
+
+  it('records evidence for the result', async () => {
+    setDefaultTransport(transport);
+
+    const account = await findAccount(site, 'claimed');
+    expect(account.evidence).toEqual({
+      method: 'HEAD',
+      url: 'https://example.test/claimed',
+      status: 200,
+      finalUrl: 'https://example.test/claimed',
+      responseTime: expect.any(Number),
+      rule: 'status_code',
+      snippet: null,
+    });
+  });
+
+  it('records evidence when no response comes back', async () => {
+    setDefaultTransport(new ReplayTransport([]));
+
+    const account = await findAccount(site, 'claimed');
+
+    expect(account).toBeInstanceOf(FailedAccount);
+    expect(account.evidence).toMatchObject({ method: 'HEAD', status: null, finalUrl: null, rule: null });
+    expect(account.evidence!.responseTime).not.toBeNull();
+  });
+
+  it('records a snippet around the matched error message', async () => {
+    const messageSite: Site = { ...site, errorType: 'message', errorMsg: 'Not Found' };
+    const body = `<html>\n  <h1>Page Not Found</h1>\n  ${'x'.repeat(200)}</html>`;
+    setDefaultTransport(new ReplayTransport([exchange('https://example.test/unclaimed', 200, body)]));
+
+    const account = await findAccount(messageSite, 'unclaimed');
+
+    expect(account).toBeInstanceOf(UnregisteredAccount);
+    expect(account.evidence!.rule).toEqual('message');
+    expect(account.evidence!.snippet).toContain('<h1>Page Not Found</h1>');
+    expect(account.evidence!.snippet!.length).toBeLessThan(body.length);
+  });
+
+  it('records a snippet around a matched name', async () => {
+    const definition = new SearchDefinition(undefined, []);
+    definition.firstNames.push('Jane');
+    const search = await definition.new();
+    search.transport = new ReplayTransport([exchange('https://example.test/claimed', 200, 'Profile of Jane Doe')]);
+
+    const account = await findAccount(site, 'claimed', search);
+
+    expect(account.evidence!.method).toEqual('GET');
+    expect(account.evidence!.snippet).toEqual('Profile of Jane Doe');
+  });
+
+  it('extracts profile metadata from registered accounts', async () => {
+    const messageSite: Site = { ...site, errorType: 'message', errorMsg: 'Not Found' };
+    const body = '<meta property="og:title" content="Jane Doe"><meta property="og:image" content="/jane.png">';
+    setDefaultTransport(new ReplayTransport([exchange('https://example.test/claimed', 200, body)]));
+
+    const account = await findAccount(messageSite, 'claimed');
+
+    expect(account).toBeInstanceOf(RegisteredAccount);
+    expect(account.metadata).toMatchObject({ displayName: 'Jane Doe', avatarUrl: 'https://example.test/jane.png' });
+  });
+
+  it('does not record evidence without a request', async () => {
+    const account = await findAccount({ ...site, regexCheck: '^[a-z]+$' }, 'not valid');
+
+    expect(account).toBeInstanceOf(InvalidAccount);
+    expect(account.evidence).toBeNull();
+  });
+});
+
+describe('findAccount detection strategies', () => {
+  const site: Site = {
+    name: 'Example',
+    url: 'https://example.test/{}',
+    urlMain: 'https://example.test',
+    errorType: 'status_code',
+    username_claimed: 'claimed',
+    username_unclaimed: 'unclaimed',
+    tags: [],
+  };
+
+  const probe = async (testSite: Site, userName: string, status: number, body: string) => {
+    setDefaultTransport(new ReplayTransport([exchange(`https://example.test/${userName}`, status, body)]));
+    return findAccount(testSite, userName);
+  };
+
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  afterEach(() => {
+    setDefaultTransport(null);
+  });
+
+  describe('message', () => {
+    const messageSite: Site = { ...site, errorType: 'message', errorMsg: ['No such user', 'Account suspended'] };
+
+    it('checks every errorMsg in a list', async () => {
+      expect(await probe(messageSite, 'unclaimed', 200, 'Account suspended')).toBeInstanceOf(UnregisteredAccount);
+      expect(await probe(messageSite, 'unclaimed', 200, 'no such user')).toBeInstanceOf(UnregisteredAccount);
+      expect(await probe(messageSite, 'claimed', 200, 'Welcome!')).toBeInstanceOf(RegisteredAccount);
+    });
+
+    it('requires presenceMsg when it is set', async () => {
+      const presenceSite: Site = { ...messageSite, presenceMsg: ['Joined on', 'Followers'] };
+
+      const account = await probe(presenceSite, 'claimed', 200, '<p>Joined on May 1st</p>');
+      expect(account).toBeInstanceOf(RegisteredAccount);
+      expect(account.evidence!.snippet).toEqual('<p>Joined on May 1st</p>');
+
+      expect(await probe(presenceSite, 'unclaimed', 200, 'No such user')).toBeInstanceOf(UnregisteredAccount);
+    });
+
+    it('is inconclusive when the markers disagree', async () => {
+      const presenceSite: Site = { ...messageSite, presenceMsg: 'Followers' };
+
+      // Captcha or login wall
+      const neither = await probe(presenceSite, 'claimed', 200, 'Please sign in to continue');
+      expect(neither).toBeInstanceOf(FailedAccount);
+      expect((neither as FailedAccount).reason).toContain('Inconclusive');
+      expect(neither.evidence!.rule).toBeNull();
+
+      const both = await probe(presenceSite, 'claimed', 200, 'Followers: 0. Account suspended');
+      expect(both).toBeInstanceOf(FailedAccount);
+      expect((both as FailedAccount).reason).toContain('Inconclusive');
+    });
+
+    it('fails on messages that are not strings', async () => {
+      const badSite = { ...messageSite, presenceMsg: 5 } as any;
+      expect(await probe(badSite, 'claimed', 200, '')).toBeInstanceOf(FailedAccount);
+    });
+  });
+
+  describe('json_api', () => {
+    const jsonSite: Site = { ...site, errorType: 'json_api', jsonPath: '$.users[0].name' };
+
+    it('finds accounts with a value at the path', async () => {
+      const account = await probe(jsonSite, 'claimed', 200, '{"users": [{"name": "claimed"}]}');
+
+      expect(account).toBeInstanceOf(RegisteredAccount);
+      expect(account.evidence!.rule).toEqual('json_api');
+      expect(await probe(jsonSite, 'unclaimed', 200, '{"users": []}')).toBeInstanceOf(UnregisteredAccount);
+      expect(await probe(jsonSite, 'unclaimed', 200, '{"users": [{"name": ""}]}')).toBeInstanceOf(UnregisteredAccount);
+    });
+
+    it('compares against jsonValue', async () => {
+      const valueSite: Site = { ...site, errorType: 'json_api', jsonPath: 'available', jsonValue: false };
+
+      expect(await probe(valueSite, 'claimed', 200, '{"available": false}')).toBeInstanceOf(RegisteredAccount);
+      expect(await probe(valueSite, 'unclaimed', 200, '{"available": true}')).toBeInstanceOf(UnregisteredAccount);
+    });
+
+    it('treats a 4XX response that is not JSON as unregistered', async () => {
+      expect(await probe(jsonSite, 'unclaimed', 404, '<h1>Not Found</h1>')).toBeInstanceOf(UnregisteredAccount);
+
+      const account = await probe(jsonSite, 'claimed', 200, '<h1>Hello</h1>');
+      expect(account).toBeInstanceOf(FailedAccount);
+      expect((account as FailedAccount).reason).toContain('not valid JSON');
+    });
+
+    it('fails without a jsonPath', async () => {
+      const account = await probe({ ...site, errorType: 'json_api' }, 'claimed', 200, '{}');
+
+      expect(account).toBeInstanceOf(FailedAccount);
+      expect(account.evidence!.status).toBeNull();
+    });
+  });
+
+  describe('regex', () => {
+    it('finds accounts that match matchRegex', async () => {
+      const regexSite: Site = { ...site, errorType: 'regex', matchRegex: 'member since \\d{4}' };
+
+      const account = await probe(regexSite, 'claimed', 200, '<p>Member since 2019</p>');
+      expect(account).toBeInstanceOf(RegisteredAccount);
+      expect(account.evidence).toMatchObject({ rule: 'regex', snippet: '<p>Member since 2019</p>' });
+
+      expect(await probe(regexSite, 'unclaimed', 200, '<p>Sign up</p>')).toBeInstanceOf(UnregisteredAccount);
+    });
+
+    it('does not find accounts that match errorRegex', async () => {
+      const regexSite: Site = { ...site, errorType: 'regex', matchRegex: 'profile', errorRegex: 'no such (user|page)' };
+
+      expect(await probe(regexSite, 'claimed', 200, 'profile of claimed')).toBeInstanceOf(RegisteredAccount);
+      expect(await probe(regexSite, 'unclaimed', 200, 'profile: No such user')).toBeInstanceOf(UnregisteredAccount);
+    });
+
+    it('fails on invalid or missing patterns', async () => {
+      expect(await probe({ ...site, errorType: 'regex', matchRegex: '(' }, 'claimed', 200, '')).toBeInstanceOf(
+        FailedAccount,
+      );
+      expect(await probe({ ...site, errorType: 'regex' }, 'claimed', 200, '')).toBeInstanceOf(FailedAccount);
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import { BaseSchema, getDb, IDbStorable } from 'db';
+import { AccountType, RecordedExchange, SearchDefinition, SiteProbeCheck } from 'search';
+import { Site } from 'sites';
 
 export const dumpAllDocs = async (includeDocs = false) => {
   const db = await getDb();
@@ -18,6 +20,56 @@ export const checkSaveResponse = (response: PouchDB.Core.Response, item: IDbStor
   expect(item.rev).toEqual(response.rev);
 };
 
+/**
+ * Build a `status_code` site at `https://<name>.test`.
+ */
+export const makeSite = (name: string, fields: Partial<Site> = {}): Site => ({
+  name,
+  url: `https://${name}.test/{}`,
+  urlMain: `https://${name}.test`,
+  errorType: 'status_code',
+  username_claimed: 'claimed',
+  username_unclaimed: 'unclaimed',
+  tags: [],
+  ...fields,
+});
+
+/**
+ * Build a health check result for `SiteHealthReport.record()`.
+ */
+export const check = (passed: boolean, latency: number | null = 10): SiteProbeCheck => ({
+  userName: 'test',
+  passed,
+  result: passed ? AccountType.REGISTERED : AccountType.FAILED,
+  reason: null,
+  latency,
+});
+
+/**
+ * Create a search of `sites` for `userNames`.
+ */
+export const newSearch = async (sites: Site[], userNames: string[]) => {
+  const definition = new SearchDefinition(undefined, []);
+  definition.includedSites = sites;
+  definition.userNames.push(...userNames);
+  return await definition.new();
+};
+
+/**
+ * Build a recorded request/response pair for `ReplayTransport`.
+ */
+export const exchange = (url: string, status: number, body = '', method = 'GET', finalUrl = url): RecordedExchange => ({
+  request: { url, method },
+  response: { status, url: finalUrl, headers: { 'Content-Type': 'text/html' }, body },
+});
+
+/**
+ * Build a recorded probe of `site` for `userName`.
+ */
+export const siteExchange = (site: Site, userName: string, status: number, body = '', method = 'GET') => {
+  return exchange(site.url.replace('{}', userName), status, body, method);
+};
+
 /**
  * Return a promise that resolves when `doc` is observed in the database's
  * sync events.